@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { renderHook, act } from '@testing-library/react';
+
+import { useAuthSession } from '../../hooks/useAuthSession';
+import { CookieManager } from '../../lib/cookie';
+
+const createJwt = (claims: object) => `header.${btoa(JSON.stringify(claims))}.signature`;
+
+describe('useAuthSession', () => {
+  beforeEach(() => {
+    CookieManager.remove('access_token');
+  });
+
+  it('should re-render on login and logout', () => {
+    const { result } = renderHook(() => useAuthSession());
+
+    expect(result.current.isLoggedIn).toBe(false);
+
+    act(() => {
+      CookieManager.set('access_token', createJwt({ role: 'admin' }));
+    });
+
+    expect(result.current.isLoggedIn).toBe(true);
+    expect(result.current.role).toBe('admin');
+    expect(result.current.hasRole('admin')).toBe(true);
+
+    act(() => {
+      CookieManager.remove('access_token');
+    });
+
+    expect(result.current.isLoggedIn).toBe(false);
+  });
+});
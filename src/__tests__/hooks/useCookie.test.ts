@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { renderHook, act } from '@testing-library/react';
+
+import { useCookie } from '../../hooks/useCookie';
+import { CookieManager } from '../../lib/cookie';
+
+describe('useCookie', () => {
+  beforeEach(() => {
+    CookieManager.remove('access_token');
+  });
+
+  it('should update every reader when the cookie is set or removed', () => {
+    const first = renderHook(() => useCookie('access_token'));
+    const second = renderHook(() => useCookie('access_token'));
+
+    expect(first.result.current[0]).toBeNull();
+
+    act(() => {
+      first.result.current[1]('abc');
+    });
+
+    expect(second.result.current[0]).toBe('abc');
+
+    act(() => {
+      CookieManager.remove('access_token');
+    });
+
+    expect(first.result.current[0]).toBeNull();
+    expect(second.result.current[0]).toBeNull();
+  });
+
+  it('should pick up changes made outside CookieManager by polling', () => {
+    vi.useFakeTimers();
+
+    const { result, unmount } = renderHook(() => useCookie('access_token'));
+
+    act(() => {
+      document.cookie = 'access_token=xyz; path=/';
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(result.current[0]).toBe('xyz');
+
+    unmount();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { renderHook, act } from '@testing-library/react';
+
+import { useMutation } from '../../hooks/useMutation';
+import { createApiClient } from '../../lib/api-client';
+import { FormDataBuilder } from '../../lib/form-data';
+import { createQueryCache } from '../../lib/query-cache';
+
+interface Todo {
+  id: number;
+  title: string;
+}
+
+describe('useMutation', () => {
+  it('should apply optimistic updates and keep them on success', async () => {
+    const cache = createQueryCache();
+    cache.setData<Todo[]>('/todos', [{ id: 1, title: 'Old' }]);
+    const onSuccess = vi.fn();
+    const onSettled = vi.fn();
+
+    const { result } = renderHook(() =>
+      useMutation(async (todo: Todo) => todo, {
+        cache,
+        optimistic: {
+          key: '/todos',
+          update: (prev: Todo[], todo: Todo) => prev.map((t) => (t.id === todo.id ? todo : t)),
+        },
+        onSuccess,
+        onSettled,
+      }),
+    );
+
+    await act(() => result.current.mutateAsync({ id: 1, title: 'New' }));
+
+    expect(cache.getData('/todos')).toEqual([{ id: 1, title: 'New' }]);
+    expect(result.current.isSuccess).toBe(true);
+    expect(onSuccess).toHaveBeenCalledWith({ id: 1, title: 'New' }, { id: 1, title: 'New' });
+    expect(onSettled).toHaveBeenCalledWith({ id: 1, title: 'New' }, null, { id: 1, title: 'New' });
+  });
+
+  it('should keep a successful write when a success callback throws', async () => {
+    const cache = createQueryCache();
+    cache.setData<Todo[]>('/todos', [{ id: 1, title: 'Old' }]);
+    const onError = vi.fn();
+    const onSettled = vi.fn();
+
+    const { result } = renderHook(() =>
+      useMutation(async (todo: Todo) => todo, {
+        cache,
+        optimistic: { key: '/todos', update: (_prev: Todo[], todo: Todo) => [todo] },
+        onSuccess: () => {
+          throw new Error('Toast failed');
+        },
+        onError,
+        onSettled,
+      }),
+    );
+
+    await act(() =>
+      expect(result.current.mutateAsync({ id: 1, title: 'New' })).rejects.toThrow('Toast failed'),
+    );
+
+    expect(cache.getData('/todos')).toEqual([{ id: 1, title: 'New' }]);
+    expect(result.current.isSuccess).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+
+  it('should roll back optimistic updates on failure and reset', async () => {
+    const cache = createQueryCache();
+    cache.setData<Todo[]>('/todos', [{ id: 1, title: 'Old' }]);
+    const onError = vi.fn();
+    let seenDuringRequest: unknown;
+
+    const { result } = renderHook(() =>
+      useMutation(
+        async () => {
+          seenDuringRequest = cache.getData('/todos');
+          throw new Error('Conflict');
+        },
+        {
+          cache,
+          optimistic: { key: '/todos', update: () => [] },
+          onError,
+        },
+      ),
+    );
+
+    act(() => {
+      result.current.mutate(undefined);
+    });
+
+    expect(result.current.isPending).toBe(true);
+
+    await vi.waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(seenDuringRequest).toEqual([]);
+    expect(cache.getData('/todos')).toEqual([{ id: 1, title: 'Old' }]);
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.status).toBe('idle');
+  });
+
+  it('should send FormDataBuilder bodies through the client', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response(null, { status: 204 }));
+    const client = createApiClient({ baseUrl: '/api', fetch: fetchMock });
+
+    const { result } = renderHook(() =>
+      useMutation<void, { id: number; form: FormDataBuilder }>({
+        url: ({ id }) => `/users/${id}/avatar`,
+        method: 'PUT',
+        body: ({ form }) => form,
+        client,
+      }),
+    );
+
+    await act(() =>
+      result.current.mutateAsync({ id: 7, form: new FormDataBuilder().append('name', 'Jane') }),
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/users/7/avatar');
+    expect(init.method).toBe('PUT');
+    expect(init.body).toBeInstanceOf(FormData);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+
+import { useQuery } from '../../hooks/useQuery';
+import { createQueryCache } from '../../lib/query-cache';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+describe('useQuery', () => {
+  it('should share one request between components using the same key', async () => {
+    const cache = createQueryCache();
+    const fetcher = vi.fn(async (url: string) => ({ url }));
+
+    const first = renderHook(() => useQuery('/users', { params: { b: 2, a: 1 }, fetcher, cache }));
+    const second = renderHook(() => useQuery('/users', { params: { a: 1, b: 2 }, fetcher, cache }));
+
+    expect(first.result.current.isLoading).toBe(true);
+
+    await waitFor(() => expect(first.result.current.status).toBe('success'));
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(second.result.current.data).toEqual({ url: '/users?a=1&b=2' });
+  });
+
+  it('should show cached data while revalidating and support mutate/refetch', async () => {
+    const cache = createQueryCache();
+    cache.setData('/todos', ['cached']);
+    const request = deferred<string[]>();
+    const fetcher = vi.fn(() => request.promise);
+
+    const { result } = renderHook(() => useQuery<string[]>('/todos', { fetcher, cache }));
+
+    expect(result.current.data).toEqual(['cached']);
+    expect(result.current.isFetching).toBe(true);
+    expect(result.current.isLoading).toBe(false);
+
+    await act(async () => {
+      request.resolve(['fresh']);
+    });
+
+    expect(result.current.data).toEqual(['fresh']);
+
+    act(() => {
+      result.current.mutate((prev = []) => [...prev, 'local']);
+    });
+
+    expect(result.current.data).toEqual(['fresh', 'local']);
+
+    fetcher.mockResolvedValueOnce(['refetched']);
+    await act(() => result.current.refetch());
+
+    expect(result.current.data).toEqual(['refetched']);
+  });
+
+  it('should abort the request on unmount and on key change', async () => {
+    const cache = createQueryCache();
+    const signals: AbortSignal[] = [];
+    const fetcher = vi.fn(
+      (_url: string, signal: AbortSignal) =>
+        new Promise<never>(() => {
+          signals.push(signal);
+        }),
+    );
+
+    const { rerender, unmount } = renderHook(
+      ({ id }) => useQuery(`/users/${id}`, { fetcher, cache }),
+      { initialProps: { id: 1 } },
+    );
+
+    rerender({ id: 2 });
+
+    expect(signals[0].aborted).toBe(true);
+    expect(cache.getState('/users/1').isFetching).toBe(false);
+
+    unmount();
+
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it('should revalidate stale data on focus and reconnect', async () => {
+    const cache = createQueryCache();
+    const fetcher = vi.fn(async () => 'data');
+
+    renderHook(() => useQuery('/feed', { fetcher, cache }));
+    await waitFor(() => expect(fetcher).toHaveBeenCalledTimes(1));
+
+    act(() => {
+      window.dispatchEvent(new Event('focus'));
+    });
+    await waitFor(() => expect(fetcher).toHaveBeenCalledTimes(2));
+
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+    await waitFor(() => expect(fetcher).toHaveBeenCalledTimes(3));
+  });
+});
+
+describe('createQueryCache', () => {
+  it('should drop entries gcTime after their last subscriber leaves', () => {
+    vi.useFakeTimers();
+    const cache = createQueryCache({ gcTime: 1000 });
+
+    cache.setData('/search?q=a', ['a']);
+    cache.setData('/users', ['Ali']);
+    const unsubscribe = cache.subscribe('/users', () => {});
+
+    vi.advanceTimersByTime(2000);
+
+    expect(cache.getData('/search?q=a')).toBeUndefined();
+    expect(cache.getData('/users')).toEqual(['Ali']);
+
+    unsubscribe();
+    vi.advanceTimersByTime(999);
+    cache.subscribe('/users', () => {})();
+    vi.advanceTimersByTime(999);
+
+    expect(cache.getData('/users')).toEqual(['Ali']);
+
+    vi.advanceTimersByTime(1);
+
+    expect(cache.getData('/users')).toBeUndefined();
+    vi.useRealTimers();
+  });
+});
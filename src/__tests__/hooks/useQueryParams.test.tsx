@@ -0,0 +1,98 @@
+import type { ReactNode } from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { renderHook, act } from '@testing-library/react';
+import { MemoryRouter, useLocation } from 'react-router-dom';
+
+import SortOrders from '../../constants/SortOrders';
+import { useQueryParams } from '../../hooks/useQueryParams';
+
+const schema = {
+  page: { type: 'number', default: 1 },
+  q: { type: 'string', default: '' },
+  active: { type: 'boolean' },
+  tags: { type: 'string[]', default: [] },
+  sort: { type: 'enum', values: Object.values(SortOrders), default: SortOrders.ASC },
+} as const;
+
+const renderQueryParams = (url: string, options?: Parameters<typeof useQueryParams>[1]) =>
+  renderHook(
+    () => {
+      const location = useLocation();
+      const [params, setParams] = useQueryParams(schema, options);
+      return { location, params, setParams };
+    },
+    {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <MemoryRouter initialEntries={[url]}>{children}</MemoryRouter>
+      ),
+    },
+  );
+
+describe('useQueryParams', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should parse typed values and fall back to defaults', () => {
+    const { result } = renderQueryParams('/users?page=3&active=true&tags=a&tags=b&sort=up');
+
+    expect(result.current.params).toEqual({
+      page: 3,
+      q: '',
+      active: true,
+      tags: ['a', 'b'],
+      sort: SortOrders.ASC,
+    });
+  });
+
+  it('should ignore params named after Object.prototype methods', () => {
+    const { result } = renderQueryParams('/users?toString=1&valueOf=2&page=2');
+
+    expect(result.current.params.page).toBe(2);
+
+    act(() => {
+      result.current.setParams({ q: 'jo' });
+    });
+
+    expect(result.current.location.search).toBe('?toString=1&valueOf=2&page=2&q=jo');
+  });
+
+  it('should merge writes into the URL and drop default values', () => {
+    const { result } = renderQueryParams('/users?page=3&view=grid#top');
+
+    act(() => {
+      result.current.setParams({ sort: SortOrders.DESC });
+    });
+    act(() => {
+      result.current.setParams((prev) => ({ page: prev.page + 1 }));
+    });
+
+    expect(result.current.location.search).toBe('?view=grid&sort=desc&page=4');
+    expect(result.current.location.hash).toBe('#top');
+
+    act(() => {
+      result.current.setParams({ page: 1, tags: ['x'] }, { mode: 'replace' });
+    });
+
+    expect(result.current.location.search).toBe('?tags=x');
+  });
+
+  it('should debounce writes', () => {
+    vi.useFakeTimers();
+    const { result } = renderQueryParams('/users', { debounce: 300 });
+
+    act(() => {
+      result.current.setParams({ q: 'j' });
+      result.current.setParams({ q: 'jo' });
+    });
+
+    expect(result.current.location.search).toBe('');
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(result.current.params.q).toBe('jo');
+  });
+});
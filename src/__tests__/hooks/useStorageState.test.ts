@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { renderHook, act } from '@testing-library/react';
+
+import { useStorageState } from '../../hooks/useStorageState';
+import { local } from '../../lib/storage';
+
+describe('useStorageState', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should return the initial value when nothing is stored', () => {
+    const { result } = renderHook(() => useStorageState('theme', 'light'));
+
+    expect(result.current[0]).toBe('light');
+  });
+
+  it('should return the same value across renders with an inline default', () => {
+    const { result, rerender } = renderHook(() => useStorageState('filters', {}));
+    const initial = result.current[0];
+
+    rerender();
+    expect(result.current[0]).toBe(initial);
+
+    act(() => {
+      result.current[1]({ status: 'open' });
+    });
+
+    const stored = result.current[0];
+    rerender();
+
+    expect(stored).toEqual({ status: 'open' });
+    expect(result.current[0]).toBe(stored);
+  });
+
+  it('should persist updates and support functional setters', () => {
+    const { result } = renderHook(() => useStorageState('count', 0));
+
+    act(() => {
+      result.current[1]((prev) => prev + 1);
+    });
+
+    expect(result.current[0]).toBe(1);
+    expect(local.get('count')).toBe(1);
+  });
+
+  it('should keep components reading the same key in sync', () => {
+    const first = renderHook(() => useStorageState('lang', 'az'));
+    const second = renderHook(() => useStorageState('lang', 'az'));
+
+    act(() => {
+      first.result.current[1]('en');
+    });
+
+    expect(second.result.current[0]).toBe('en');
+
+    act(() => {
+      second.result.current[2]();
+    });
+
+    expect(first.result.current[0]).toBe('az');
+  });
+
+  it('should update on storage events from other tabs', () => {
+    const { result } = renderHook(() => useStorageState('lang', 'az'));
+
+    act(() => {
+      localStorage.setItem('lang', '"ru"');
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'lang', storageArea: localStorage }),
+      );
+    });
+
+    expect(result.current[0]).toBe('ru');
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { ApiError, createApiClient } from '../../lib/api-client';
+import { CookieManager } from '../../lib/cookie';
+import { FormDataBuilder } from '../../lib/form-data';
+
+const jsonResponse = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+
+const sharedFeatures = {
+  users: { endpoint: { admin: '/admin/users', user: '/users' } },
+  health: { endpoint: '/health' },
+};
+
+describe('createApiClient', () => {
+  beforeEach(() => {
+    CookieManager.remove('token');
+  });
+
+  it('should resolve role-based endpoints and serialize the query', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse([{ id: 1 }]));
+    const client = createApiClient({
+      baseUrl: 'https://api.test/v1/',
+      sharedFeatures,
+      getRole: () => 'admin',
+      fetch: fetchMock,
+    });
+
+    const users = await client.get<{ id: number }[]>(
+      { feature: 'users', path: '42' },
+      { query: { tags: ['a', 'b'], empty: '' } },
+    );
+
+    expect(users).toEqual([{ id: 1 }]);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.test/v1/admin/users/42?tags=a&tags=b');
+  });
+
+  it('should throw a config ApiError when no endpoint matches the role', async () => {
+    const fetchMock = vi.fn();
+    const client = createApiClient({
+      baseUrl: '/api',
+      sharedFeatures,
+      getRole: () => 'guest',
+      fetch: fetchMock,
+    });
+
+    const error = await client.post({ feature: 'users' }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ kind: 'config', method: 'POST', status: 0 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should attach the bearer token and send JSON and FormDataBuilder bodies', async () => {
+    CookieManager.set('token', 'abc');
+    const fetchMock = vi.fn().mockImplementation(async () => new Response(null, { status: 204 }));
+    const client = createApiClient({ baseUrl: '/api', tokenCookie: 'token', fetch: fetchMock });
+
+    await expect(client.post('/items', { name: 'Pen' })).resolves.toBeUndefined();
+    await client.put('/items/1', new FormDataBuilder().append('name', 'Pen'));
+
+    const [, jsonInit] = fetchMock.mock.calls[0];
+    expect(jsonInit.headers).toMatchObject({
+      Authorization: 'Bearer abc',
+      'Content-Type': 'application/json',
+    });
+    expect(jsonInit.body).toBe('{"name":"Pen"}');
+
+    const [, formInit] = fetchMock.mock.calls[1];
+    expect(formInit.body).toBeInstanceOf(FormData);
+    expect(formInit.headers['Content-Type']).toBeUndefined();
+  });
+
+  it('should send binary and stream bodies as they are', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response(null, { status: 204 }));
+    const client = createApiClient({ baseUrl: '/api', fetch: fetchMock });
+    const bytes = new Uint8Array([1, 2, 3]);
+    const view = new DataView(bytes.buffer);
+    const stream = new ReadableStream();
+
+    await client.post('/bytes', bytes);
+    await client.post('/view', view);
+    await client.post('/stream', stream);
+    await client.post('/list', [1, 2]);
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.body)).toEqual([
+      bytes,
+      view,
+      stream,
+      '[1,2]',
+    ]);
+    expect(fetchMock.mock.calls[0][1].headers['Content-Type']).toBeUndefined();
+    expect(fetchMock.mock.calls[3][1].headers['Content-Type']).toBe('application/json');
+  });
+
+  it('should throw ApiError with the status and parsed body for HTTP errors', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ message: 'Invalid' }, { status: 422 }));
+    const client = createApiClient({ baseUrl: '/api', fetch: fetchMock });
+
+    const error = await client.delete('/items/1').catch((err) => err);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      kind: 'http',
+      status: 422,
+      method: 'DELETE',
+      url: '/api/items/1',
+      body: { message: 'Invalid' },
+    });
+  });
+
+  it('should normalize network failures and timeouts', async () => {
+    const networkClient = createApiClient({
+      baseUrl: '/api',
+      fetch: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+    });
+
+    await expect(networkClient.get('/health')).rejects.toMatchObject({
+      kind: 'network',
+      status: 0,
+    });
+
+    const timeoutClient = createApiClient({
+      baseUrl: '/api',
+      fetch: vi
+        .fn()
+        .mockRejectedValue(new DOMException('The operation timed out.', 'TimeoutError')),
+      timeout: 10,
+    });
+
+    await expect(timeoutClient.get('/health')).rejects.toMatchObject({ kind: 'timeout' });
+  });
+});
+
+describe('createApiClient pipeline', () => {
+  it('should run request and response interceptors', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse({ ok: true }));
+    const client = createApiClient({ baseUrl: '/api', fetch: fetchMock });
+    const seen: number[] = [];
+
+    const eject = client.interceptors.request.use((request) => ({
+      ...request,
+      headers: { ...request.headers, 'X-Trace': '1' },
+    }));
+    client.interceptors.response.use((response) => {
+      seen.push(response.status);
+    });
+
+    await client.get('/health');
+    eject();
+    await client.get('/health');
+
+    expect(fetchMock.mock.calls[0][1].headers['X-Trace']).toBe('1');
+    expect(fetchMock.mock.calls[1][1].headers['X-Trace']).toBeUndefined();
+    expect(seen).toEqual([200, 200]);
+  });
+
+  it('should retry idempotent methods and honor Retry-After', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('', { status: 503, headers: { 'Retry-After': '0' } }))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(jsonResponse({ id: 1 }));
+    const client = createApiClient({
+      baseUrl: '/api',
+      fetch: fetchMock,
+      retry: { retries: 2, baseDelay: 1 },
+    });
+
+    await expect(client.get('/items/1')).resolves.toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    fetchMock.mockClear();
+    fetchMock.mockImplementation(async () => new Response('', { status: 503 }));
+
+    await expect(client.post('/items', {})).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should time out slow requests and report caller aborts', async () => {
+    const hangingFetch = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        }),
+    );
+    const client = createApiClient({ baseUrl: '/api', fetch: hangingFetch as typeof fetch });
+
+    await expect(client.get('/slow', { timeout: 5 })).rejects.toMatchObject({ kind: 'timeout' });
+
+    const controller = new AbortController();
+    const pending = client.get('/slow', { signal: controller.signal, timeout: 1000 });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ kind: 'abort' });
+  });
+
+  it('should normalize failures while reading the body and retry them', async () => {
+    const brokenBody = () =>
+      Object.assign(jsonResponse({ id: 1 }), {
+        text: () => Promise.reject(new TypeError('Connection reset')),
+      });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(brokenBody())
+      .mockResolvedValue(jsonResponse({ id: 1 }));
+    const client = createApiClient({ baseUrl: '/api', fetch: fetchMock });
+
+    await expect(client.get('/items/1', { retry: { retries: 1, baseDelay: 1 } })).resolves.toEqual({
+      id: 1,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockResolvedValueOnce(brokenBody());
+    await expect(client.get('/items/1')).rejects.toMatchObject({ kind: 'network' });
+
+    const slowBody = (_url: string, init: RequestInit) =>
+      Promise.resolve(
+        Object.assign(jsonResponse({ id: 1 }), {
+          text: () =>
+            new Promise<string>((_, reject) => {
+              init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+            }),
+        }),
+      );
+    const slowClient = createApiClient({ baseUrl: '/api', fetch: vi.fn(slowBody) as typeof fetch });
+
+    await expect(slowClient.get('/items/1', { timeout: 5 })).rejects.toMatchObject({
+      kind: 'timeout',
+    });
+
+    const controller = new AbortController();
+    const pending = slowClient.get('/items/1', { signal: controller.signal, timeout: 1000 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ kind: 'abort' });
+  });
+
+  it('should refresh the token once for concurrent 401 responses', async () => {
+    let validToken = 'new';
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const auth = (init.headers as Record<string, string>).Authorization;
+      return auth === `Bearer ${validToken}`
+        ? jsonResponse({ ok: true })
+        : new Response('', { status: 401 });
+    });
+    const refreshToken = vi.fn(async (): Promise<string | null> => validToken);
+    const client = createApiClient({
+      baseUrl: '/api',
+      fetch: fetchMock as typeof fetch,
+      refreshToken,
+    });
+
+    const results = await Promise.all([client.get('/a'), client.get('/b'), client.post('/c')]);
+
+    expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+
+    validToken = 'rejected';
+    refreshToken.mockResolvedValueOnce(null);
+
+    await expect(client.get('/a')).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('should stop sending a refreshed token once the token cookie changes', async () => {
+    CookieManager.set('token', 'expired');
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const auth = (init.headers as Record<string, string>).Authorization;
+      return auth === 'Bearer expired'
+        ? new Response('', { status: 401 })
+        : jsonResponse(auth ?? 'none');
+    });
+    const refreshToken = vi.fn(async (): Promise<string | void> => 'refreshed');
+    const client = createApiClient({
+      baseUrl: '/api',
+      tokenCookie: 'token',
+      fetch: fetchMock as typeof fetch,
+      refreshToken,
+    });
+
+    expect(await client.get('/a')).toBe('Bearer refreshed');
+
+    /** Logout */
+    CookieManager.remove('token');
+    expect(await client.get('/a')).toBe('none');
+
+    /** A refresh that stores the token in the cookie and returns nothing */
+    CookieManager.set('token', 'expired');
+    refreshToken.mockImplementationOnce(async () => {
+      CookieManager.set('token', 'from-cookie');
+    });
+
+    expect(await client.get('/a')).toBe('Bearer from-cookie');
+
+    CookieManager.remove('token');
+  });
+});
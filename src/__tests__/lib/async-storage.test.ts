@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import {
+  createAsyncStorage,
+  createIndexedDBBackend,
+  createMemoryAsyncBackend,
+} from '../../lib/async-storage';
+
+describe('createAsyncStorage', () => {
+  it('should store Blobs natively without JSON', async () => {
+    const storage = createAsyncStorage({ backend: createMemoryAsyncBackend() });
+    const blob = new Blob(['hello'], { type: 'text/plain' });
+
+    await storage.set('attachment', blob);
+
+    const stored = await storage.get<Blob>('attachment');
+    expect(stored).toBeInstanceOf(Blob);
+    expect(await stored?.text()).toBe('hello');
+  });
+
+  it('should expose the promise-based storage surface', async () => {
+    const storage = createAsyncStorage({ backend: createMemoryAsyncBackend() });
+
+    await storage.set('draft', { title: 'Hi' });
+    await storage.set('list', [1, 2, 3]);
+
+    expect(await storage.getOr('missing', 'fallback')).toBe('fallback');
+    expect(await storage.has('draft')).toBe(true);
+    expect(await storage.keys()).toEqual(['draft', 'list']);
+
+    await storage.remove('draft');
+    expect(await storage.get('draft')).toBeNull();
+
+    await storage.clear();
+    expect(await storage.keys()).toEqual([]);
+  });
+});
+
+describe('createIndexedDBBackend', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should close a connection that opens after the upgrade was blocked', async () => {
+    const request = {} as IDBOpenDBRequest;
+    const db = { close: vi.fn(), objectStoreNames: { contains: () => true } };
+    vi.stubGlobal('indexedDB', { open: () => request });
+
+    const pending = createIndexedDBBackend().get('draft');
+    request.onblocked?.(new Event('blocked') as IDBVersionChangeEvent);
+
+    await expect(pending).rejects.toThrow('is blocked');
+
+    Object.defineProperty(request, 'result', { value: db });
+    request.onsuccess?.(new Event('success'));
+
+    expect(db.close).toHaveBeenCalled();
+  });
+});
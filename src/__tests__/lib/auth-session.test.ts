@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createAuthSession, decodeJwt } from '../../lib/auth-session';
+import { CookieManager } from '../../lib/cookie';
+import { getEndpoint, isLoggedIn } from '../../utils/api-utils';
+
+const toBase64Url = (value: object) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const createJwt = (claims: object) =>
+  `${toBase64Url({ alg: 'HS256', typ: 'JWT' })}.${toBase64Url(claims)}.signature`;
+
+const inSeconds = (seconds: number) => Math.floor(Date.now() / 1000) + seconds;
+
+describe('decodeJwt', () => {
+  it('should decode the payload and reject malformed tokens', () => {
+    expect(decodeJwt(createJwt({ sub: '1', name: 'Zoë' }))).toEqual({ sub: '1', name: 'Zoë' });
+    expect(decodeJwt('opaque-token')).toBeNull();
+    expect(decodeJwt('a.%%%.c')).toBeNull();
+  });
+});
+
+describe('createAuthSession', () => {
+  beforeEach(() => {
+    CookieManager.remove('access_token');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expose login state, expiry and roles', () => {
+    const session = createAuthSession();
+
+    expect(session.isLoggedIn()).toBe(false);
+    expect(session.getRole()).toBeNull();
+
+    CookieManager.set('access_token', createJwt({ exp: inSeconds(120), roles: ['admin', 'user'] }));
+
+    expect(session.isLoggedIn()).toBe(true);
+    expect(session.expiresIn()).toBeGreaterThan(100_000);
+    expect(session.hasRole(['owner', 'admin'])).toBe(true);
+    expect(getEndpoint(session.getRole(), 'users', { users: { endpoint: { admin: '/a' } } })).toBe(
+      '/a',
+    );
+    expect(session.getSnapshot()).toBe(session.getSnapshot());
+
+    CookieManager.set('access_token', createJwt({ exp: inSeconds(-10), role: 'admin' }));
+
+    expect(session.isExpired()).toBe(true);
+    expect(session.isLoggedIn()).toBe(false);
+    expect(session.hasRole('admin')).toBe(false);
+    expect(isLoggedIn('access_token')).toBe(false);
+  });
+
+  it('should notify on expiry and schedule refreshes before it', async () => {
+    vi.useFakeTimers();
+    CookieManager.set('access_token', createJwt({ exp: inSeconds(120) }));
+
+    const session = createAuthSession();
+    const listener = vi.fn();
+    const refresh = vi.fn(() => {
+      CookieManager.set('access_token', createJwt({ exp: inSeconds(300) }));
+    });
+
+    const unsubscribe = session.subscribe(listener);
+    const cancel = session.scheduleRefresh(refresh, 30_000);
+
+    vi.advanceTimersByTime(90_000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(session.expiresIn()).toBeGreaterThan(200_000);
+    expect(listener).toHaveBeenCalled();
+
+    cancel();
+    unsubscribe();
+  });
+});
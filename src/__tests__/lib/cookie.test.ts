@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { CookieManager, parseCookies, serializeCookie } from '../../lib/cookie';
+
+describe('parseCookies', () => {
+  it('should split pairs on the first "=" only', () => {
+    expect(parseCookies('token=eyJhbGciOi==.abc=; theme=dark')).toEqual({
+      token: 'eyJhbGciOi==.abc=',
+      theme: 'dark',
+    });
+  });
+
+  it('should decode values, strip quotes and keep the first occurrence', () => {
+    expect(parseCookies('name="John%20Doe"; name=other; bad=%E0%A4%A; flag')).toEqual({
+      name: 'John Doe',
+      bad: '%E0%A4%A',
+    });
+  });
+});
+
+describe('CookieManager', () => {
+  beforeEach(() => {
+    Object.keys(CookieManager.getAll()).forEach((name) => CookieManager.remove(name));
+  });
+
+  it('should round-trip values containing "="', () => {
+    CookieManager.set('jwt', 'a.b.c==');
+
+    expect(CookieManager.get('jwt')).toBe('a.b.c==');
+  });
+
+  it('should list and remove cookies', () => {
+    CookieManager.set('a', '1');
+    CookieManager.set('b', '2', { maxAge: 3600, sameSite: 'Lax' });
+
+    expect(CookieManager.getAll()).toEqual({ a: '1', b: '2' });
+
+    CookieManager.remove('a');
+
+    expect(CookieManager.get('a')).toBeNull();
+    expect(CookieManager.getAll()).toEqual({ b: '2' });
+  });
+});
+
+describe('serializeCookie', () => {
+  it('should build a Set-Cookie header value', () => {
+    expect(
+      serializeCookie('session', 'a=b', {
+        maxAge: 3600,
+        httpOnly: true,
+        sameSite: 'None',
+      }),
+    ).toBe('session=a%3Db; max-age=3600; path=/; secure; HttpOnly; SameSite=None');
+  });
+});
+
+describe('JSON cookies', () => {
+  const isPrefs = (value: unknown): value is { theme: string } =>
+    typeof value === 'object' && value !== null && 'theme' in value;
+
+  it('should round-trip JSON values in the browser', () => {
+    CookieManager.setJSON('prefs', { theme: 'dark' });
+
+    expect(CookieManager.getJSON('prefs', { validate: isPrefs })).toEqual({ theme: 'dark' });
+  });
+
+  it('should read from a Cookie request header and apply the validator', () => {
+    const header = `prefs=${encodeURIComponent('{"theme":"light"}')}; other=${encodeURIComponent('[1]')}`;
+
+    expect(CookieManager.getJSON('prefs', { header, validate: isPrefs })).toEqual({
+      theme: 'light',
+    });
+    expect(CookieManager.getJSON('other', { header, validate: isPrefs })).toBeNull();
+    expect(CookieManager.getJSON('missing', { header: undefined })).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+
+import { createFormData, FormDataValidationError } from '../../lib/form-data';
+import { parseFormData } from '../../lib/form-data-parser';
+
+const payload = {
+  name: 'Order',
+  items: [
+    { sku: 'A1', qty: 2 },
+    { sku: 'B2', qty: 1 },
+  ],
+  tags: ['new', 'sale'],
+};
+
+const entriesOf = (formData: FormData) =>
+  [...formData.entries()].map(([key, value]) => [key, String(value)]);
+
+describe('FormDataBuilder.appendDeep', () => {
+  it('should use `a[0].b` keys by default', () => {
+    const formData = createFormData().appendDeep('', payload).build();
+
+    expect(entriesOf(formData)).toEqual([
+      ['name', 'Order'],
+      ['items[0].sku', 'A1'],
+      ['items[0].qty', '2'],
+      ['items[1].sku', 'B2'],
+      ['items[1].qty', '1'],
+      ['tags[0]', 'new'],
+      ['tags[1]', 'sale'],
+    ]);
+  });
+
+  it('should support bracket, dot and repeated-key conventions', () => {
+    const brackets = createFormData({ keyStyle: 'brackets' }).appendDeep('order', payload).build();
+    const dots = createFormData({ keyStyle: 'dots' }).appendDeep('', payload).build();
+    const repeat = createFormData({ keyStyle: 'repeat' }).appendDeep('', payload).build();
+
+    expect(brackets.get('order[items][1][sku]')).toBe('B2');
+    expect(dots.get('items.0.qty')).toBe('2');
+    expect(repeat.getAll('tags')).toEqual(['new', 'sale']);
+    expect(repeat.getAll('items.sku')).toEqual(['A1', 'B2']);
+  });
+
+  it('should serialize Dates and Blobs and apply skip options at every level', () => {
+    const blob = new Blob(['x']);
+    const formData = createFormData({ skipNull: true, skipEmptyStrings: true })
+      .appendDeep('', {
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        file: blob,
+        meta: { note: '', owner: null, kept: 0, missing: undefined },
+      })
+      .build();
+
+    expect(formData.get('createdAt')).toBe('2025-01-01T00:00:00.000Z');
+    expect(formData.get('file')).toBeInstanceOf(Blob);
+    expect(entriesOf(formData).map(([key]) => key)).toEqual(['createdAt', 'file', 'meta.kept']);
+  });
+});
+
+describe('parseFormData', () => {
+  it('should round-trip what the builder produces in every key style', () => {
+    (['mixed', 'brackets', 'dots'] as const).forEach((keyStyle) => {
+      const formData = createFormData({ keyStyle }).appendDeep('', payload).build();
+
+      expect(parseFormData(formData, { 'items.qty': 'number' })).toEqual(payload);
+    });
+  });
+
+  it('should group repeated keys and coerce values through the schema', () => {
+    const params = new URLSearchParams(
+      'tags=a&tags=b&ids[]=1&ids[]=2&active=on&born=2000-01-02&age=abc&single=x',
+    );
+
+    expect(
+      parseFormData(params, {
+        ids: 'number[]',
+        active: 'boolean',
+        born: 'date',
+        age: 'number',
+        single: 'string[]',
+      }),
+    ).toEqual({
+      tags: ['a', 'b'],
+      ids: [1, 2],
+      active: true,
+      born: new Date('2000-01-02'),
+      age: null,
+      single: ['x'],
+    });
+  });
+
+  it('should read the fields of a form element', () => {
+    const form = document.createElement('form');
+    form.innerHTML = '<input name="user.name" value="Ali"><input name="user.age" value="30">';
+
+    expect(parseFormData(form, { 'user.age': 'number' })).toEqual({
+      user: { name: 'Ali', age: 30 },
+    });
+  });
+
+  it('should ignore keys that reach Object.prototype', () => {
+    const params = new URLSearchParams(
+      '__proto__[polluted]=yes&a.constructor.prototype.polluted=yes&b[__proto__]=x&ok=1',
+    );
+
+    expect(parseFormData(params)).toEqual({ ok: '1' });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('should not read inherited names from the schema', () => {
+    const params = new URLSearchParams('toString=a&valueOf=1&hasOwnProperty=x&qty=2');
+
+    expect(parseFormData(params, { qty: 'number' })).toEqual({
+      toString: 'a',
+      valueOf: '1',
+      hasOwnProperty: 'x',
+      qty: 2,
+    });
+  });
+});
+
+describe('FormDataBuilder files', () => {
+  const png = (size: number, name = 'a.png') =>
+    new File(['x'.repeat(size)], name, { type: 'image/png' });
+
+  it('should append Blobs with a filename and every file of a list', () => {
+    const formData = createFormData()
+      .append('raw', new Blob(['{}'], { type: 'application/json' }))
+      .appendFile('avatar', new Blob(['x'], { type: 'image/png' }), 'avatar.png')
+      .appendFile('photos', [png(1, 'one.png'), png(1, 'two.png')])
+      .build();
+
+    expect(formData.get('raw')).toBeInstanceOf(Blob);
+    expect((formData.get('avatar') as File).name).toBe('avatar.png');
+    expect(formData.getAll('photos').map((file) => (file as File).name)).toEqual([
+      'one.png',
+      'two.png',
+    ]);
+  });
+
+  it('should throw typed errors for size and MIME limits', () => {
+    const builder = createFormData({ maxFileSize: 10, maxTotalSize: 15, accept: ['image/*'] });
+
+    const codeOf = (fn: () => void) => {
+      try {
+        fn();
+      } catch (error) {
+        return error instanceof FormDataValidationError ? error.code : 'unexpected';
+      }
+      return 'none';
+    };
+
+    expect(codeOf(() => builder.appendFile('doc', new File(['x'], 'a.pdf', { type: 'application/pdf' })))).toBe(
+      'MIME_NOT_ALLOWED',
+    );
+    expect(codeOf(() => builder.appendFile('big', png(11)))).toBe('FILE_TOO_LARGE');
+    expect(codeOf(() => builder.appendFile('first', png(10)))).toBe('none');
+    expect(codeOf(() => builder.appendFile('second', png(10)))).toBe('TOTAL_TOO_LARGE');
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+
+import { useOutbox } from '../../hooks/useOutbox';
+import { createApiClient } from '../../lib/api-client';
+import { createOutbox } from '../../lib/outbox';
+import { createStorage } from '../../lib/storage';
+import { createMemoryBackend } from '../../lib/storage-backends';
+
+const setOnline = (online: boolean) => {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+};
+
+const setup = (fetchMock: typeof fetch, options: Parameters<typeof createOutbox>[0] = {}) => {
+  const storage = createStorage(createMemoryBackend());
+  const client = createApiClient({ baseUrl: '/api', fetch: fetchMock });
+  return { storage, outbox: createOutbox({ storage, client, ...options }) };
+};
+
+describe('createOutbox', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should queue writes while offline and replay them in order when back online', async () => {
+    setOnline(false);
+    const fetchMock = vi.fn().mockImplementation(async () => new Response(null, { status: 204 }));
+    const { storage, outbox } = setup(fetchMock);
+
+    await outbox.submit({ method: 'POST', url: '/todos', body: { title: 'A' } });
+    await outbox.submit({ method: 'PUT', url: '/profile', body: { name: 'Jo' }, dedupeKey: 'p' });
+    await outbox.submit({ method: 'PUT', url: '/profile', body: { name: 'Joe' }, dedupeKey: 'p' });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(storage.get<unknown[]>('outbox')).toHaveLength(2);
+
+    setOnline(true);
+    window.dispatchEvent(new Event('online'));
+
+    await waitFor(() => expect(outbox.items()).toEqual([]));
+
+    expect(fetchMock.mock.calls.map(([url, init]) => [url, init.body])).toEqual([
+      ['/api/todos', '{"title":"A"}'],
+      ['/api/profile', '{"name":"Joe"}'],
+    ]);
+
+    outbox.stop();
+  });
+
+  it('should send a deduped replacement queued while the old item is in flight', async () => {
+    setOnline(true);
+    let respond = () => {};
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise<Response>((resolve) => {
+            respond = () => resolve(new Response(null, { status: 204 }));
+          }),
+      )
+      .mockImplementation(async () => new Response(null, { status: 204 }));
+    const { outbox } = setup(fetchMock);
+
+    outbox.enqueue({ method: 'PUT', url: '/profile', body: { name: 'Jo' }, dedupeKey: 'p' });
+    const replay = outbox.replay();
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    outbox.enqueue({ method: 'PUT', url: '/profile', body: { name: 'Joe' }, dedupeKey: 'p' });
+    respond();
+    await replay;
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.body)).toEqual([
+      '{"name":"Jo"}',
+      '{"name":"Joe"}',
+    ]);
+    expect(outbox.items()).toEqual([]);
+
+    outbox.stop();
+  });
+
+  it('should let only one tab replay a shared queue', async () => {
+    setOnline(false);
+    const fetchMock = vi.fn().mockImplementation(async () => new Response(null, { status: 204 }));
+    const { storage, outbox } = setup(fetchMock);
+    const otherTab = createOutbox({
+      storage,
+      client: createApiClient({ baseUrl: '/api', fetch: fetchMock }),
+    });
+
+    outbox.enqueue({ method: 'POST', url: '/todos', body: { title: 'A' } });
+    otherTab.enqueue({ method: 'POST', url: '/todos', body: { title: 'B' } });
+
+    setOnline(true);
+    window.dispatchEvent(new Event('online'));
+
+    await Promise.all([outbox.replay(), otherTab.replay()]);
+    await waitFor(() => expect(outbox.items()).toEqual([]));
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.body)).toEqual([
+      '{"title":"A"}',
+      '{"title":"B"}',
+    ]);
+    expect(storage.get('outbox:lease')).toBeNull();
+
+    outbox.stop();
+    otherTab.stop();
+  });
+
+  it('should report conflicts and failures and keep retryable items', async () => {
+    setOnline(true);
+    const onConflict = vi.fn();
+    const onFailure = vi.fn();
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(async () => new Response(null, { status: 409 }))
+      .mockImplementationOnce(async () => new Response(null, { status: 422 }))
+      .mockImplementationOnce(async () => new Response(null, { status: 503 }));
+    const { outbox } = setup(fetchMock, { onConflict, onFailure });
+
+    ['/a', '/b', '/c'].forEach((url) => outbox.enqueue({ method: 'POST', url }));
+    await outbox.replay();
+
+    expect(onConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ url: '/a' }),
+      expect.objectContaining({ status: 409 }),
+    );
+    expect(onFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ url: '/b' }),
+      expect.objectContaining({ status: 422 }),
+    );
+    expect(outbox.items()).toMatchObject([{ url: '/c', attempts: 1 }]);
+
+    outbox.stop();
+  });
+
+  it('should give up on conflicts retried up to maxAttempts', async () => {
+    setOnline(true);
+    const onFailure = vi.fn();
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(async () => new Response(null, { status: 409 }))
+      .mockImplementationOnce(async () => new Response(null, { status: 409 }))
+      .mockImplementation(async () => new Response(null, { status: 204 }));
+    const { outbox } = setup(fetchMock, { maxAttempts: 2, onConflict: () => 'retry', onFailure });
+
+    ['/a', '/b'].forEach((url) => outbox.enqueue({ method: 'PUT', url }));
+    await outbox.replay();
+
+    expect(outbox.items()).toMatchObject([{ url: '/a', attempts: 1 }, { url: '/b' }]);
+
+    await outbox.replay();
+
+    expect(onFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ url: '/a' }),
+      expect.objectContaining({ status: 409 }),
+    );
+    expect(outbox.items()).toEqual([]);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['/api/a', '/api/a', '/api/b']);
+
+    outbox.stop();
+  });
+});
+
+describe('useOutbox', () => {
+  it('should expose pending items', () => {
+    setOnline(false);
+    const { outbox } = setup(vi.fn());
+    const { result } = renderHook(() => useOutbox(outbox));
+
+    expect(result.current.pending).toBe(0);
+
+    act(() => {
+      outbox.enqueue({ method: 'DELETE', url: '/todos/1' });
+    });
+
+    expect(result.current.pending).toBe(1);
+    expect(result.current.items[0].url).toBe('/todos/1');
+
+    outbox.stop();
+    vi.restoreAllMocks();
+  });
+});
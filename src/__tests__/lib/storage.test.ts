@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { createStorage, type StorageSchema } from '../../lib/storage';
+import { createMemoryBackend, resolveWebStorage } from '../../lib/storage-backends';
+
+interface UserV2 {
+  firstName: string;
+  lastName: string;
+}
+
+const userSchema: StorageSchema<UserV2> = {
+  version: 2,
+  defaultValue: { firstName: '', lastName: '' },
+  validate: (value): value is UserV2 =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as UserV2).firstName === 'string' &&
+    typeof (value as UserV2).lastName === 'string',
+  migrations: {
+    1: (name: string) => ({ fullName: name }),
+    2: ({ fullName }: { fullName: string }) => {
+      const [firstName, lastName] = fullName.split(' ');
+      return { firstName, lastName };
+    },
+  },
+};
+
+describe('createStorage', () => {
+  const storage = createStorage(localStorage);
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should round-trip plain values', () => {
+    storage.set('count', 5);
+
+    expect(storage.get('count')).toBe(5);
+    expect(storage.getOr('missing', 'fallback')).toBe('fallback');
+  });
+
+  it('should round-trip values shaped like the metadata envelope', () => {
+    const value = { __storage: {}, value: 5 };
+    storage.set('envelope', value);
+    storage.set('expiring', value, { maxAge: 1000 });
+
+    expect(storage.get('envelope')).toEqual(value);
+    expect(storage.get('expiring')).toEqual(value);
+  });
+
+  describe('defineKey', () => {
+    const user = storage.defineKey('user', userSchema);
+
+    it('should write values with the schema version', () => {
+      user.set({ firstName: 'Ali', lastName: 'Aliyev' });
+
+      expect(JSON.parse(localStorage.getItem('user')!)).toEqual({
+        __storage: { version: 2 },
+        value: { firstName: 'Ali', lastName: 'Aliyev' },
+      });
+      expect(user.get()).toEqual({ firstName: 'Ali', lastName: 'Aliyev' });
+    });
+
+    it('should upgrade unversioned payloads through every migration', () => {
+      localStorage.setItem('user', JSON.stringify('Ali Aliyev'));
+
+      expect(user.get()).toEqual({ firstName: 'Ali', lastName: 'Aliyev' });
+      expect(JSON.parse(localStorage.getItem('user')!).__storage).toEqual({ version: 2 });
+    });
+
+    it('should drop payloads that fail validation and fall back to the default', () => {
+      localStorage.setItem('user', JSON.stringify({ __storage: { version: 2 }, value: 42 }));
+
+      expect(user.getOr()).toEqual(userSchema.defaultValue);
+      expect(localStorage.getItem('user')).toBeNull();
+    });
+
+    it('should drop payloads when a migration throws', () => {
+      localStorage.setItem('user', JSON.stringify({ __storage: { version: 1 }, value: null }));
+
+      expect(user.get()).toBeNull();
+      expect(user.has()).toBe(false);
+    });
+
+    it('should leave payloads from a newer schema untouched', () => {
+      const raw = JSON.stringify({ __storage: { version: 3 }, value: {} });
+      localStorage.setItem('user', raw);
+
+      expect(user.get()).toBeNull();
+      expect(localStorage.getItem('user')).toBe(raw);
+    });
+  });
+
+  describe('expiry', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should return null and remove the entry once maxAge has passed', () => {
+      storage.set('token', 'abc', { maxAge: 1000 });
+
+      expect(storage.get('token')).toBe('abc');
+
+      vi.advanceTimersByTime(1000);
+
+      expect(storage.get('token')).toBeNull();
+      expect(localStorage.getItem('token')).toBeNull();
+    });
+
+    it('should honor absolute expiry dates', () => {
+      storage.set('draft', { body: 'hi' }, { expires: new Date('2025-01-02T00:00:00Z') });
+
+      expect(storage.ttl('draft')).toBe(86_400_000);
+      expect(storage.getOr('draft', null)).toEqual({ body: 'hi' });
+    });
+
+    it('should purge expired keys and list remaining lifetimes', () => {
+      storage.set('a', 1, { maxAge: 500 });
+      storage.set('b', 2, { maxAge: 5000 });
+      storage.set('c', 3);
+
+      vi.advanceTimersByTime(1000);
+
+      expect(storage.purgeExpired()).toEqual(['a']);
+      expect(storage.listTTL()).toEqual({ b: 4000 });
+      expect(storage.ttl('c')).toBeNull();
+    });
+  });
+
+  describe('namespace', () => {
+    const app = createStorage(localStorage, { namespace: 'app' });
+
+    it('should scope keys, keys() and clear() to the namespace', () => {
+      localStorage.setItem('other', '1');
+      app.set('theme', 'dark');
+
+      expect(localStorage.getItem('app:theme')).toBe('"dark"');
+      expect(app.get('theme')).toBe('dark');
+      expect(app.keys()).toEqual(['theme']);
+
+      app.clear();
+
+      expect(app.has('theme')).toBe(false);
+      expect(localStorage.getItem('other')).toBe('1');
+    });
+
+    it('should move unprefixed keys into the namespace', () => {
+      localStorage.setItem('theme', '"light"');
+      localStorage.setItem('lang', '"az"');
+      app.set('lang', 'en');
+
+      expect(app.adoptKeys(['theme', 'lang', 'missing'])).toEqual(['theme']);
+      expect(app.get('theme')).toBe('light');
+      expect(localStorage.getItem('theme')).toBeNull();
+      expect(app.get('lang')).toBe('en');
+    });
+  });
+
+  describe('backends', () => {
+    it('should expose the same API over an in-memory backend', () => {
+      const memory = createStorage(createMemoryBackend(), { namespace: 'test' });
+
+      memory.set('a', { ok: true });
+      memory.set('b', 1);
+
+      expect(memory.get('a')).toEqual({ ok: true });
+      expect(memory.keys()).toEqual(['a', 'b']);
+
+      memory.clear();
+
+      expect(memory.keys()).toEqual([]);
+      expect(localStorage.length).toBe(0);
+    });
+
+    it('should fall back to memory when localStorage throws', () => {
+      const spy = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+        throw new DOMException('QuotaExceededError');
+      });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const fallback = createStorage(() => resolveWebStorage('localStorage'));
+      fallback.set('key', 'value');
+
+      spy.mockRestore();
+      warn.mockRestore();
+
+      expect(fallback.get('key')).toBe('value');
+      expect(localStorage.getItem('key')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+
+import { DateFormats } from '../../constants/DateFormats';
+import { generateQuery, parseQuery } from '../../utils/api-utils';
+
+describe('generateQuery', () => {
+  it('should keep repeating array keys by default and skip empty values', () => {
+    expect(generateQuery({ page: 1, tags: ['a', '', 'b'], empty: '', none: null })).toBe(
+      'page=1&tags=a&tags=b',
+    );
+  });
+
+  it('should support every array format', () => {
+    const query = { ids: [1, 2] };
+
+    expect(decodeURIComponent(generateQuery(query, { arrayFormat: 'brackets' }))).toBe(
+      'ids[]=1&ids[]=2',
+    );
+    expect(decodeURIComponent(generateQuery(query, { arrayFormat: 'indices' }))).toBe(
+      'ids[0]=1&ids[1]=2',
+    );
+    expect(decodeURIComponent(generateQuery(query, { arrayFormat: 'comma' }))).toBe('ids=1,2');
+  });
+
+  it('should encode nested objects, dates and sort keys', () => {
+    const query = {
+      sort: 'name',
+      filter: { status: 'active', from: new Date(2025, 0, 5), owner: undefined },
+      items: [{ sku: 'A1' }],
+    };
+
+    expect(
+      decodeURIComponent(
+        generateQuery(query, { sort: true, dateFormat: DateFormats.YYYY_MM_DD_WITH_HYPEN }),
+      ),
+    ).toBe('filter[from]=2025-01-05&filter[status]=active&items[0][sku]=A1&sort=name');
+  });
+});
+
+describe('parseQuery', () => {
+  it('should coerce values using the schema', () => {
+    expect(
+      parseQuery('?page=2&active=true&ids=1&ids=2&q=pen', {
+        schema: { page: 'number', active: 'boolean', ids: 'number[]' },
+      }),
+    ).toEqual({ page: 2, active: true, ids: [1, 2], q: 'pen' });
+  });
+
+  it('should round-trip nested objects and array formats', () => {
+    const query = { ids: [1, 2], filter: { status: 'active', tags: ['x'] } };
+    const schema = { ids: 'number[]', 'filter.tags': 'string[]' } as const;
+
+    (['repeat', 'brackets', 'indices', 'comma'] as const).forEach((arrayFormat) => {
+      expect(parseQuery(generateQuery(query, { arrayFormat }), { schema, arrayFormat })).toEqual(
+        query,
+      );
+    });
+  });
+
+  it('should parse dates with the given format', () => {
+    const { from } = parseQuery<{ from: Date }>('from=05/01/2025', {
+      schema: { from: 'date' },
+      dateFormat: DateFormats.DD_MM_YYYY_WITH_SLASH,
+    });
+
+    expect(from).toEqual(new Date(2025, 0, 5));
+  });
+
+  it('should not let query keys pollute Object.prototype', () => {
+    expect(parseQuery('?__proto__[polluted]=yes&constructor[prototype][polluted]=yes')).toEqual({});
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('should parse params named after Object.prototype methods', () => {
+    expect(parseQuery('?valueOf=1&toString=a')).toEqual({ valueOf: '1', toString: 'a' });
+    expect(
+      parseQuery('?valueOf=1,2&page=3', { arrayFormat: 'comma', schema: { page: 'number' } }),
+    ).toEqual({ valueOf: ['1', '2'], page: 3 });
+  });
+});
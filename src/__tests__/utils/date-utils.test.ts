@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+
+import { DateFormats } from '../../constants/DateFormats';
+import {
+  addToDate,
+  convertTimeZone,
+  endOf,
+  formatDate,
+  formatDateRange,
+  formatRelativeTime,
+  fromZonedTime,
+  getTimeZoneOffset,
+  isSameDay,
+  isToday,
+  parseDate,
+  startOf,
+  toZonedTime,
+} from '../../utils/date-utils';
+
+/** Friday, 5 December 2025, 14:07:09.045 local time */
+const date = new Date(2025, 11, 5, 14, 7, 9, 45);
+
+describe('formatDate', () => {
+  it('should render every DateFormats entry', () => {
+    expect(formatDate(date, DateFormats.MMMM_DD_YYYY)).toBe('December 05, 2025');
+    expect(formatDate(date, DateFormats.DD_MM_YYYY_WITH_DOT)).toBe('05.12.2025');
+    expect(formatDate(date, DateFormats.DD_MM_YYYY_WITH_SLASH)).toBe('05/12/2025');
+    expect(formatDate(date, DateFormats.YYYY_MM_DD_WITH_HYPEN)).toBe('2025-12-05');
+    expect(formatDate(date, DateFormats.DD_MM_YYYY_WITH_HYPHEN)).toBe('05-12-2025');
+    expect(formatDate(date, DateFormats.DD_MM_YYYY_HH_mm)).toBe('05/12/2025 14:07');
+    expect(formatDate(date, DateFormats.DD_MMM_YYYY_WITH_SPACE)).toBe('05 Dec 2025');
+    expect(formatDate(date)).toBe('05 Dec 2025');
+  });
+
+  it('should support short, 12-hour and millisecond tokens', () => {
+    expect(formatDate(date, 'D/M/YY h:mm:ss.SSS A')).toBe('5/12/25 2:07:09.045 PM');
+    expect(formatDate(date, 'ddd, dddd')).toBe('Fri, Friday');
+    expect(formatDate(new Date(2025, 0, 1, 0, 5), 'hh:mm A')).toBe('12:05 AM');
+  });
+
+  it('should replace repeated tokens and keep bracketed literals', () => {
+    expect(formatDate(date, 'YYYY/YYYY')).toBe('2025/2025');
+    expect(formatDate(date, '[Today is] dddd [at] HH:mm')).toBe('Today is Friday at 14:07');
+    expect(formatDate(date, '[YYYY-MM-DD]')).toBe('YYYY-MM-DD');
+  });
+
+  it('should render the local UTC offset', () => {
+    const offset = -date.getTimezoneOffset();
+    const abs = Math.abs(offset);
+    const expected = `${offset < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+
+    expect(formatDate(date, 'Z')).toBe(expected);
+  });
+
+  it('should return undefined for invalid dates', () => {
+    expect(formatDate('not a date')).toBeUndefined();
+    expect(formatDate(null)).toBeUndefined();
+  });
+});
+
+describe('formatDate locale', () => {
+  it('should take month and weekday names from Intl', () => {
+    expect(formatDate(date, 'dddd, D MMMM YYYY', { locale: 'az' })).toBe('cümə, 5 dekabr 2025');
+    expect(formatDate(date, 'D MMMM', { locale: 'ru' })).toBe('5 декабря');
+    expect(formatDate(date, 'MMMM YYYY', { locale: 'ru' })).toBe('декабрь 2025');
+  });
+
+  it('should pass the locale through formatDateRange', () => {
+    const end = new Date(2025, 11, 9);
+    expect(formatDateRange(date, end, 'D MMMM', ' – ', { locale: 'az' })).toBe(
+      '5 dekabr – 9 dekabr',
+    );
+  });
+});
+
+describe('formatRelativeTime', () => {
+  const base = new Date(2025, 11, 5, 12, 0);
+  const minutes = (n: number) => new Date(base.getTime() + n * 60_000);
+  const days = (n: number) => new Date(base.getTime() + n * 86_400_000);
+
+  it('should pick the largest fitting unit and pluralize', () => {
+    expect(formatRelativeTime(minutes(-1), base)).toBe('1 minute ago');
+    expect(formatRelativeTime(minutes(-5), base)).toBe('5 minutes ago');
+    expect(formatRelativeTime(minutes(180), base)).toBe('in 3 hours');
+    expect(formatRelativeTime(days(14), base)).toBe('in 2 weeks');
+    expect(formatRelativeTime(days(-90), base)).toBe('3 months ago');
+    expect(formatRelativeTime(days(-800), base)).toBe('2 years ago');
+  });
+
+  it('should move up a unit when the rounded value reaches it', () => {
+    expect(formatRelativeTime(minutes(-59.6), base)).toBe('1 hour ago');
+    expect(formatRelativeTime(days(-6.6), base)).toBe('1 week ago');
+    expect(formatRelativeTime(days(-29), base)).toBe('4 weeks ago');
+    expect(formatRelativeTime(days(-364), base)).toBe('1 year ago');
+    expect(formatRelativeTime(days(330), base)).toBe('in 11 months');
+  });
+
+  it('should use words in numeric auto mode', () => {
+    expect(formatRelativeTime(days(-1), base, { numeric: 'auto' })).toBe('yesterday');
+    expect(formatRelativeTime(base, base, { numeric: 'auto' })).toBe('now');
+  });
+
+  it('should format in the given locale', () => {
+    expect(formatRelativeTime(minutes(-5), base, { locale: 'az' })).toBe('5 dəqiqə öncə');
+    expect(formatRelativeTime(days(-1), base, { locale: 'az', numeric: 'auto' })).toBe('dünən');
+  });
+});
+
+describe('parseDate', () => {
+  it('should round-trip every DateFormats entry', () => {
+    Object.values(DateFormats).forEach((format) => {
+      const parsed = parseDate(formatDate(date, format)!, format);
+      expect(formatDate(parsed, format), format).toBe(formatDate(date, format));
+    });
+
+    expect(parseDate('05/12/2025 14:07', DateFormats.DD_MM_YYYY_HH_mm)).toEqual(
+      new Date(2025, 11, 5, 14, 7),
+    );
+  });
+
+  it('should reject overflowing dates and impossible times', () => {
+    expect(parseDate('31/02/2024', DateFormats.DD_MM_YYYY_WITH_SLASH)).toBeUndefined();
+    expect(parseDate('29/02/2023', DateFormats.DD_MM_YYYY_WITH_SLASH)).toBeUndefined();
+    expect(parseDate('29/02/2024', DateFormats.DD_MM_YYYY_WITH_SLASH)).toEqual(
+      new Date(2024, 1, 29),
+    );
+    expect(parseDate('05/13/2025', DateFormats.DD_MM_YYYY_WITH_SLASH)).toBeUndefined();
+    expect(parseDate('05/12/2025 24:00', DateFormats.DD_MM_YYYY_HH_mm)).toBeUndefined();
+    expect(parseDate('05/12/2025 12:60', DateFormats.DD_MM_YYYY_HH_mm)).toBeUndefined();
+    expect(parseDate('13:00 PM', 'h:mm A')).toBeUndefined();
+    expect(parseDate('2025-12-05', DateFormats.DD_MM_YYYY_WITH_SLASH)).toBeUndefined();
+  });
+
+  it('should relax padding, case and spacing in lenient mode', () => {
+    expect(parseDate('5/3/2024', DateFormats.DD_MM_YYYY_WITH_SLASH)).toBeUndefined();
+    expect(parseDate(' 5/3/2024 ', DateFormats.DD_MM_YYYY_WITH_SLASH, { strict: false })).toEqual(
+      new Date(2024, 2, 5),
+    );
+    expect(parseDate('december  5, 2025', 'MMMM D, YYYY', { strict: false })).toEqual(
+      new Date(2025, 11, 5),
+    );
+    expect(
+      parseDate('31/2/2024', DateFormats.DD_MM_YYYY_WITH_SLASH, { strict: false }),
+    ).toBeUndefined();
+  });
+
+  it('should parse 12-hour times, weekdays, offsets and literals', () => {
+    expect(parseDate('5/12/25 2:07:09.045 PM', 'D/M/YY h:mm:ss.SSS A')).toEqual(date);
+    expect(parseDate('12:30 AM', 'hh:mm A')?.getHours()).toBe(0);
+    expect(parseDate('Friday, 5 December 2025', 'dddd, D MMMM YYYY')).toEqual(
+      new Date(2025, 11, 5),
+    );
+    expect(parseDate('Monday, 5 December 2025', 'dddd, D MMMM YYYY')).toBeUndefined();
+    expect(parseDate('2025-12-05T10:00+04:00', 'YYYY-MM-DD[T]HH:mmZ')).toEqual(
+      new Date('2025-12-05T06:00:00Z'),
+    );
+  });
+
+  it('should read names in the given locale', () => {
+    expect(parseDate('5 dekabr 2025', 'D MMMM YYYY', { locale: 'az' })).toEqual(
+      new Date(2025, 11, 5),
+    );
+    expect(parseDate('5 декабря 2025', 'D MMMM YYYY', { locale: 'ru' })).toEqual(
+      new Date(2025, 11, 5),
+    );
+  });
+});
+
+describe('time zones', () => {
+  /** Host in Baku (UTC+4, no DST), so local time differs from every zone under test */
+  beforeAll(() => {
+    vi.stubEnv('TZ', 'Asia/Baku');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should read offsets from Intl, including DST', () => {
+    expect(getTimeZoneOffset('Asia/Baku')).toBe(240);
+    expect(getTimeZoneOffset('Europe/Berlin', new Date('2025-01-15T12:00:00Z'))).toBe(60);
+    expect(getTimeZoneOffset('Europe/Berlin', new Date('2025-07-15T12:00:00Z'))).toBe(120);
+    expect(getTimeZoneOffset('America/New_York', new Date('2025-01-15T12:00:00Z'))).toBe(-300);
+  });
+
+  it('should format in a time zone', () => {
+    const instant = '2025-12-05T22:30:00Z';
+
+    expect(formatDate(instant, 'DD/MM HH:mm Z')).toBe('06/12 02:30 +04:00');
+    expect(formatDate(instant, 'DD/MM HH:mm Z', { timeZone: 'UTC' })).toBe('05/12 22:30 +00:00');
+    expect(formatDate(instant, 'ddd h:mm A Z', { timeZone: 'America/New_York' })).toBe(
+      'Fri 5:30 PM -05:00',
+    );
+  });
+
+  it('should find the start and end of periods in a time zone', () => {
+    const instant = '2025-12-05T22:30:00Z';
+
+    expect(startOf(instant)?.toISOString()).toBe('2025-12-05T20:00:00.000Z');
+    expect(startOf(instant, 'day', { timeZone: 'UTC' })?.toISOString()).toBe(
+      '2025-12-05T00:00:00.000Z',
+    );
+    expect(endOf('2025-11-15T12:00:00Z', 'month', { timeZone: 'America/New_York' })).toEqual(
+      new Date('2025-12-01T04:59:59.999Z'),
+    );
+    expect(startOf('2025-07-15T12:00:00Z', 'year', { timeZone: 'Europe/Berlin' })).toEqual(
+      new Date('2024-12-31T23:00:00Z'),
+    );
+  });
+
+  it('should compare days in a time zone', () => {
+    expect(isSameDay('2025-12-05T21:00:00Z', '2025-12-05T10:00:00Z')).toBe(false);
+    expect(isSameDay('2025-12-05T21:00:00Z', '2025-12-05T10:00:00Z', { timeZone: 'UTC' })).toBe(
+      true,
+    );
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-12-05T22:00:00Z'));
+
+    expect(isToday('2025-12-05T01:00:00Z')).toBe(false);
+    expect(isToday('2025-12-05T01:00:00Z', { timeZone: 'UTC' })).toBe(true);
+  });
+
+  it('should add calendar days across DST changes', () => {
+    /** Berlin moves from +01:00 to +02:00 on 30 March 2025 */
+    const noon = new Date('2025-03-29T11:00:00Z');
+
+    expect(addToDate(noon, 1, 'day', { timeZone: 'Europe/Berlin' })).toEqual(
+      new Date('2025-03-30T10:00:00Z'),
+    );
+    expect(addToDate(noon, 24, 'hour', { timeZone: 'Europe/Berlin' })).toEqual(
+      new Date('2025-03-30T11:00:00Z'),
+    );
+  });
+
+  it('should move times skipped by DST forward and take the earlier of repeated ones', () => {
+    /** Santiago skips from 00:00 (-04:00) to 01:00 (-03:00) on 8 September 2024 */
+    expect(startOf('2024-09-08T15:00:00Z', 'day', { timeZone: 'America/Santiago' })).toEqual(
+      new Date('2024-09-08T04:00:00Z'),
+    );
+    /** New York skips 02:00-03:00 on 10 March and repeats 01:00-02:00 on 3 November 2024 */
+    expect(fromZonedTime(new Date(2024, 2, 10, 2, 30), 'America/New_York')).toEqual(
+      new Date('2024-03-10T07:30:00Z'),
+    );
+    expect(fromZonedTime(new Date(2024, 10, 3, 1, 30), 'America/New_York')).toEqual(
+      new Date('2024-11-03T05:30:00Z'),
+    );
+  });
+
+  it('should convert wall-clock times between zones', () => {
+    const converted = convertTimeZone(new Date(2025, 11, 5, 9, 0), 'Asia/Baku', 'Europe/Berlin');
+
+    expect(formatDate(converted, 'DD/MM HH:mm')).toBe('05/12 06:00');
+    expect(fromZonedTime(new Date(2025, 11, 5, 10, 0), 'UTC')).toEqual(
+      new Date('2025-12-05T10:00:00Z'),
+    );
+    expect(toZonedTime('2025-12-05T10:00:00Z', 'America/New_York')?.getHours()).toBe(5);
+    expect(fromZonedTime(new Date(2025, 2, 30, 2, 30), 'Europe/Berlin')).toEqual(
+      new Date('2025-03-30T01:30:00Z'),
+    );
+  });
+});
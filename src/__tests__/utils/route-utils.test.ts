@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+
+import { getBreadcrumbs, hasPathSegment, isPathPrefix, matchRoute } from '../../utils/route-utils';
+
+describe('matchRoute', () => {
+  it('should match on segment boundaries and extract params', () => {
+    expect(matchRoute('/users/:id', '/users/42/')).toEqual({
+      params: { id: '42' },
+      pathname: '/users/42',
+    });
+    expect(matchRoute('/users', '/users-archive')).toBeNull();
+    expect(matchRoute('/users/:id', '/users')).toBeNull();
+  });
+
+  it('should support optional segments and wildcards', () => {
+    expect(matchRoute('/users/:id?', '/users')?.params).toEqual({});
+    expect(matchRoute('/:lang?/docs', '/en/docs')?.params).toEqual({ lang: 'en' });
+    expect(matchRoute('/:lang?/docs', '/docs')?.params).toEqual({});
+    expect(matchRoute('/users/:id?/edit', '/users/edit')).toEqual({
+      params: {},
+      pathname: '/users/edit',
+    });
+    expect(matchRoute('/users/:id?/edit', '/users/42/edit')?.params).toEqual({ id: '42' });
+    expect(matchRoute('/docs/intro?', '/docs/setup')).toBeNull();
+    expect(matchRoute('/files/*', '/files/a/b%20c.txt')?.params).toEqual({ '*': 'a/b c.txt' });
+  });
+});
+
+describe('isPathPrefix / hasPathSegment', () => {
+  it('should not match partial segments', () => {
+    expect(isPathPrefix('/users', '/users/42/edit')).toBe(true);
+    expect(isPathPrefix('/users', '/users-archive')).toBe(false);
+    expect(isPathPrefix('/projects/:id', '/projects/7/tasks')).toBe(true);
+
+    expect(hasPathSegment('/settings/billing/cards', 'billing/cards')).toBe(true);
+    expect(hasPathSegment('/users-archive', 'users')).toBe(false);
+  });
+});
+
+describe('getBreadcrumbs', () => {
+  it('should build labelled crumbs for each level', () => {
+    const crumbs = getBreadcrumbs('/users/42/edit', {
+      '/': 'Home',
+      '/users': 'Users',
+      '/users/:id': ({ id }) => `User ${id}`,
+    });
+
+    expect(crumbs.map(({ path, label }) => [path, label])).toEqual([
+      ['/', 'Home'],
+      ['/users', 'Users'],
+      ['/users/42', 'User 42'],
+    ]);
+  });
+});
@@ -1,13 +1,20 @@
 export * from './usePrint';
+export * from './useQuery';
 export * from './usePortal';
 export * from './useToggle';
+export * from './useCookie';
+export * from './useOutbox';
 export * from './useDebounce';
 export * from './usePrevious';
+export * from './useMutation';
 export * from './useEscapeKey';
 export * from './useScrollLock';
 export * from './useAppLocation';
+export * from './useAuthSession';
 export * from './useDownloadFile';
 export * from './useOnlineStatus';
 export * from './useOutsideClick';
+export * from './useQueryParams';
+export * from './useStorageState';
 export * from './useEventListener';
 export * from './useResizeListener';
@@ -1,22 +1,43 @@
 import { useLocation } from 'react-router-dom';
 
+import {
+  getBreadcrumbs,
+  hasPathSegment,
+  isPathPrefix,
+  matchRoute,
+  type RouteLabel,
+} from '../utils/route-utils';
+
 export const useAppLocation = () => {
   const location = useLocation();
 
   const { pathname, hash, search } = location ?? {};
 
-  const isActive = (path: string) => pathname === path;
+  /** Exact match; accepts patterns such as `/users/:id` */
+  const isActive = (path: string) => !!matchRoute(path, pathname);
+
+  /** Active on the path itself and every nested path, e.g. for menu groups */
+  const isPrefixActive = (prefix: string) => isPathPrefix(prefix, pathname);
 
-  const includes = (segment: string) => pathname.includes(segment);
+  /** Params of the pattern when it matches the current path, otherwise null */
+  const match = (pattern: string) => matchRoute(pattern, pathname)?.params ?? null;
+
+  /** Segment-aware: `users` does not match `/users-archive` */
+  const includes = (segment: string) => hasPathSegment(pathname, segment);
 
   const startsWith = (prefix: string) => pathname.startsWith(prefix);
 
+  const breadcrumbs = (labels: Record<string, RouteLabel>) => getBreadcrumbs(pathname, labels);
+
   return {
     hash,
+    match,
     search,
     isActive,
     includes,
     pathname,
     startsWith,
+    breadcrumbs,
+    isPrefixActive,
   };
 };
@@ -0,0 +1,59 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+
+import {
+  authSession,
+  type AuthSession,
+  type AuthSessionSnapshot,
+} from '../lib/auth-session';
+
+interface UseAuthSessionOptions {
+  /** Session to read (default: `authSession` over the `access_token` cookie) */
+  session?: AuthSession;
+  /** Called shortly before the token expires; should store a new token */
+  onRefresh?: () => unknown;
+  /** How long before expiry `onRefresh` runs, in ms (default: 60000) */
+  refreshBefore?: number;
+}
+
+const SERVER_SNAPSHOT: AuthSessionSnapshot = {
+  token: null,
+  claims: null,
+  isLoggedIn: false,
+  isExpired: false,
+  expiresAt: null,
+  roles: [],
+  role: null,
+};
+
+/**
+ * Current auth session; re-renders on login, logout and token expiry.
+ * `role` can be passed straight to `getEndpoint(role, ...)`.
+ */
+export function useAuthSession({
+  session = authSession,
+  onRefresh,
+  refreshBefore,
+}: UseAuthSessionOptions = {}) {
+  const snapshot = useSyncExternalStore(session.subscribe, session.getSnapshot, getServerSnapshot);
+
+  /** Inline callbacks must not reschedule the refresh on every render */
+  const refreshRef = useRef(onRefresh);
+  const hasRefresh = !!onRefresh;
+
+  useEffect(() => {
+    refreshRef.current = onRefresh;
+  });
+
+  useEffect(() => {
+    if (!hasRefresh) return;
+    return session.scheduleRefresh(() => refreshRef.current?.(), refreshBefore);
+  }, [session, hasRefresh, refreshBefore]);
+
+  return { ...snapshot, hasRole: session.hasRole };
+}
+
+export default useAuthSession;
+
+function getServerSnapshot() {
+  return SERVER_SNAPSHOT; // Cookies are read on the client, render logged out
+}
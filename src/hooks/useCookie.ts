@@ -0,0 +1,34 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+import { CookieManager, type CookieOptions } from '../lib/cookie';
+
+/**
+ * Reads a cookie and re-renders whenever it changes.
+ * `options` are used by both `set` and `remove`, so the cookie is removed with
+ * the same attributes it was written with.
+ */
+export function useCookie(name: string, options?: CookieOptions) {
+  const getSnapshot = useCallback(() => CookieManager.get(name), [name]);
+
+  const value = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const set = useCallback(
+    (next: string, overrides?: CookieOptions) =>
+      CookieManager.set(name, next, { ...options, ...overrides }),
+    [name, options],
+  );
+
+  const remove = useCallback(() => CookieManager.remove(name, options), [name, options]);
+
+  return [value, set, remove] as const;
+}
+
+export default useCookie;
+
+function getServerSnapshot() {
+  return null; // Cookies are not readable during server rendering
+}
+
+function subscribe(callback: () => void) {
+  return CookieManager.subscribe(callback);
+}
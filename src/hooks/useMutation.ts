@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { createApiClient, type ApiBody, type ApiClient } from '../lib/api-client';
+import { queryCache, type QueryCache, type QueryState } from '../lib/query-cache';
+
+export type MutationStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/**
+ * Request a mutation sends; the variables are used as the body
+ * (JSON, `FormDataBuilder`, FormData, ...) unless `body` maps them.
+ */
+export interface MutationRequest<TVariables> {
+  url: string | ((variables: TVariables) => string);
+  /** HTTP method (default: "POST") */
+  method?: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: (variables: TVariables) => ApiBody;
+  /** Client to send the request with (default: `createApiClient({ baseUrl: '' })`) */
+  client?: ApiClient;
+}
+
+/**
+ * Change applied to cached query data before the request is sent and
+ * rolled back if it fails.
+ */
+export interface OptimisticUpdate<TVariables> {
+  key: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  update: (prev: any, variables: TVariables) => unknown;
+}
+
+export interface UseMutationOptions<TData, TVariables> {
+  /** Optimistic changes to cached queries, rolled back on failure */
+  optimistic?: OptimisticUpdate<TVariables> | OptimisticUpdate<TVariables>[];
+  /** Query keys to revalidate after success (matches keys with any params) */
+  invalidate?: string[];
+  onSuccess?: (data: TData, variables: TVariables) => void;
+  onError?: (error: unknown, variables: TVariables) => void;
+  onSettled?: (data: TData | undefined, error: unknown, variables: TVariables) => void;
+  /** Cache the optimistic updates apply to (default: the shared `queryCache`) */
+  cache?: QueryCache;
+}
+
+interface MutationState<TData, TVariables> {
+  status: MutationStatus;
+  data: TData | undefined;
+  error: unknown;
+  variables: TVariables | undefined;
+}
+
+const IDLE_STATE: MutationState<never, never> = {
+  status: 'idle',
+  data: undefined,
+  error: null,
+  variables: undefined,
+};
+
+const defaultClient = createApiClient({ baseUrl: '' });
+
+const toMutationFn =
+  <TData, TVariables>(request: MutationRequest<TVariables>) =>
+  (variables: TVariables): Promise<TData> => {
+    const { url, method = 'POST', body, client = defaultClient } = request;
+
+    return client.request<TData>(method, typeof url === 'function' ? url(variables) : url, {
+      body: body ? body(variables) : (variables as ApiBody),
+    });
+  };
+
+/**
+ * Tracks the state of a write (idle, pending, success, error), applies
+ * optimistic updates to cached queries and rolls them back on failure.
+ *
+ * @param mutation - Async function, or a request whose body is the variables
+ * @param options - Optimistic updates, keys to invalidate and callbacks
+ */
+export function useMutation<TData = unknown, TVariables = ApiBody>(
+  mutation: ((variables: TVariables) => Promise<TData>) | MutationRequest<TVariables>,
+  options: UseMutationOptions<TData, TVariables> = {},
+) {
+  const [state, setState] = useState<MutationState<TData, TVariables>>(IDLE_STATE);
+
+  /** Only the latest call updates the state */
+  const callId = useRef(0);
+  const latest = useRef({ mutation, options });
+
+  useEffect(() => {
+    latest.current = { mutation, options };
+  });
+
+  const mutateAsync = useCallback(async (variables: TVariables): Promise<TData> => {
+    const { mutation, options } = latest.current;
+    const { optimistic, invalidate, onSuccess, onError, onSettled, cache = queryCache } = options;
+
+    const id = ++callId.current;
+    const updates = optimistic ? ([] as OptimisticUpdate<TVariables>[]).concat(optimistic) : [];
+    const snapshots = new Map<string, QueryState<unknown>>();
+
+    setState({ status: 'pending', data: undefined, error: null, variables });
+
+    updates.forEach(({ key, update }) => {
+      /** A refetch finishing now would overwrite the optimistic data */
+      cache.cancel(key);
+      if (!snapshots.has(key)) snapshots.set(key, cache.getState(key));
+      cache.setData(key, (prev) => update(prev, variables));
+    });
+
+    const run =
+      typeof mutation === 'function' ? mutation : toMutationFn<TData, TVariables>(mutation);
+
+    let data: TData;
+
+    try {
+      data = await run(variables);
+    } catch (error) {
+      snapshots.forEach((snapshot, key) => cache.restore(key, snapshot));
+
+      if (id === callId.current) setState({ status: 'error', data: undefined, error, variables });
+
+      onError?.(error, variables);
+      onSettled?.(undefined, error, variables);
+
+      throw error;
+    }
+
+    /** The server accepted the write: errors thrown below must not roll it back */
+    if (id === callId.current) setState({ status: 'success', data, error: null, variables });
+
+    invalidate?.forEach((key) => cache.invalidate(key));
+
+    try {
+      onSuccess?.(data, variables);
+    } finally {
+      onSettled?.(data, null, variables);
+    }
+
+    return data;
+  }, []);
+
+  /** Fire-and-forget variant; errors are reported through state and `onError` */
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      mutateAsync(variables).catch(() => undefined);
+    },
+    [mutateAsync],
+  );
+
+  const reset = useCallback(() => {
+    callId.current++;
+    setState(IDLE_STATE);
+  }, []);
+
+  return {
+    ...state,
+    isIdle: state.status === 'idle',
+    isPending: state.status === 'pending',
+    isSuccess: state.status === 'success',
+    isError: state.status === 'error',
+    mutate,
+    mutateAsync,
+    reset,
+  };
+}
+
+export default useMutation;
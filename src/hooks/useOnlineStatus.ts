@@ -2,7 +2,7 @@ import { useSyncExternalStore } from "react";
 
 export function useOnlineStatus() {
   const isOnline = useSyncExternalStore(
-    subscribe,
+    subscribeOnlineStatus,
     getSnapshot,
     getServerSnapshot
   );
@@ -20,7 +20,11 @@ function getServerSnapshot() {
   return true; // Always show "Online" for server-generated HTML
 }
 
-function subscribe(callback: () => void) {
+/**
+ * Calls back on every `online` / `offline` event; read `navigator.onLine`
+ * for the current state. Returns an unsubscribe function.
+ */
+export function subscribeOnlineStatus(callback: () => void) {
   window.addEventListener("online", callback);
   window.addEventListener("offline", callback);
 
@@ -0,0 +1,32 @@
+import { useSyncExternalStore } from 'react';
+
+import { outbox as defaultOutbox, type Outbox, type OutboxSnapshot } from '../lib/outbox';
+
+const SERVER_SNAPSHOT: OutboxSnapshot = { items: [], isSyncing: false };
+
+/**
+ * Pending requests of an outbox, e.g. for a "syncing…" badge.
+ * Subscribing also starts replaying the outbox when the browser comes back online.
+ */
+export function useOutbox(outbox: Outbox = defaultOutbox) {
+  const { items, isSyncing } = useSyncExternalStore(
+    outbox.subscribe,
+    outbox.getSnapshot,
+    getServerSnapshot,
+  );
+
+  return {
+    items,
+    pending: items.length,
+    isSyncing,
+    replay: outbox.replay,
+    remove: outbox.remove,
+    clear: outbox.clear,
+  };
+}
+
+export default useOutbox;
+
+function getServerSnapshot() {
+  return SERVER_SNAPSHOT; // Nothing is queued on the server
+}
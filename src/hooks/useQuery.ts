@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+
+import { createApiClient } from '../lib/api-client';
+import { queryCache, type QueryCache, type QueryState } from '../lib/query-cache';
+import { generateQuery } from '../utils/api-utils';
+
+import { subscribeOnlineStatus } from './useOnlineStatus';
+
+export interface UseQueryOptions<T> {
+  /** Query params appended to the URL with `generateQuery` (keys sorted) */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params?: Record<string, any>;
+  /** Loads the data (default: GET through `createApiClient`, JSON parsed) */
+  fetcher?: (url: string, signal: AbortSignal) => Promise<T>;
+  /** Set to false to wait, e.g. until an id is known (default: true) */
+  enabled?: boolean;
+  /** How long data counts as fresh in milliseconds (default: 0) */
+  staleTime?: number;
+  /** Revalidate when the window regains focus (default: true) */
+  revalidateOnFocus?: boolean;
+  /** Revalidate when the browser comes back online (default: true) */
+  revalidateOnReconnect?: boolean;
+  /** Cache to read from and write to (default: the shared `queryCache`) */
+  cache?: QueryCache;
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  /** True while loading without any data to show */
+  isLoading: boolean;
+  /** Fetches again, even when the data is fresh */
+  refetch: () => Promise<T | undefined>;
+  /** Replaces the cached data for this key */
+  mutate: (data: T | ((prev: T | undefined) => T)) => void;
+}
+
+const defaultClient = createApiClient({ baseUrl: '' });
+
+const defaultFetcher = <T>(url: string, signal: AbortSignal) =>
+  defaultClient.get<T>(url, { signal });
+
+const ignoreError = () => undefined;
+
+/**
+ * Builds the cache key for a URL and params; keys are sorted so the same
+ * params always produce the same key.
+ */
+export const getQueryKey = (
+  url: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params?: Record<string, any>,
+): string => {
+  const query = params ? generateQuery(params, { sort: true }) : '';
+  if (!query) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+};
+
+/**
+ * Fetches and caches data keyed by URL and params. Cached data is shown
+ * right away and revalidated in the background (stale-while-revalidate);
+ * components using the same key share one request, which is aborted when
+ * the last of them unmounts or changes key.
+ *
+ * @param url - Request URL; null or undefined skips fetching
+ * @param options - Params, fetcher, freshness and revalidation settings
+ */
+export function useQuery<T = unknown>(
+  url: string | null | undefined,
+  options: UseQueryOptions<T> = {},
+): UseQueryResult<T> {
+  const {
+    params,
+    fetcher,
+    enabled = true,
+    staleTime = 0,
+    revalidateOnFocus = true,
+    revalidateOnReconnect = true,
+    cache = queryCache,
+  } = options;
+
+  const key = url ? getQueryKey(url, params) : null;
+  const active = enabled && !!key;
+
+  /** Inline fetchers must not restart the request on every render */
+  const fetcherRef = useRef(fetcher);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (callback: () => void) => (key ? cache.subscribe(key, callback) : () => {}),
+    [cache, key],
+  );
+
+  const getSnapshot = useCallback(() => cache.getState<T>(key ?? ''), [cache, key]);
+
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const load = useCallback(
+    (force?: boolean): Promise<T | undefined> => {
+      if (!key) return Promise.resolve(undefined);
+
+      return cache.fetch<T>(
+        key,
+        (signal) => (fetcherRef.current ?? defaultFetcher<T>)(key, signal),
+        { staleTime, force },
+      );
+    },
+    [cache, key, staleTime],
+  );
+
+  useEffect(() => {
+    if (active) load().catch(ignoreError);
+  }, [active, load]);
+
+  useEffect(() => {
+    if (!active || !revalidateOnFocus) return;
+
+    const onFocus = () => {
+      if (document.visibilityState !== 'hidden') load().catch(ignoreError);
+    };
+
+    window.addEventListener('focus', onFocus);
+    document.addEventListener('visibilitychange', onFocus);
+
+    return () => {
+      window.removeEventListener('focus', onFocus);
+      document.removeEventListener('visibilitychange', onFocus);
+    };
+  }, [active, revalidateOnFocus, load]);
+
+  useEffect(() => {
+    if (!active || !revalidateOnReconnect) return;
+
+    return subscribeOnlineStatus(() => {
+      if (navigator.onLine) load().catch(ignoreError);
+    });
+  }, [active, revalidateOnReconnect, load]);
+
+  const refetch = useCallback(() => load(true), [load]);
+
+  const mutate = useCallback<UseQueryResult<T>['mutate']>(
+    (data) => {
+      if (key) cache.setData(key, data);
+    },
+    [cache, key],
+  );
+
+  return { ...state, isLoading: state.status === 'loading', refetch, mutate };
+}
+
+/** Alias of `useQuery` */
+export const useFetch = useQuery;
+
+export default useQuery;
@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import {
+  generateQuery,
+  parseQuery,
+  type QueryArrayFormat,
+  type QuerySchema,
+} from '../utils/api-utils';
+
+import { useAppLocation } from './useAppLocation';
+
+interface QueryParamTypes {
+  string: string;
+  number: number;
+  boolean: boolean;
+  date: Date;
+  'string[]': string[];
+  'number[]': number[];
+  'boolean[]': boolean[];
+}
+
+/**
+ * Definition of a single query param. Missing or invalid values
+ * (e.g. `page=abc`, an unknown enum value) fall back to `default`.
+ */
+export type QueryParamField =
+  | {
+      [K in keyof QueryParamTypes]: { type: K; default?: Readonly<QueryParamTypes[K]> };
+    }[keyof QueryParamTypes]
+  | { type: 'enum'; values: readonly string[]; default?: string }
+  | { type: 'enum[]'; values: readonly string[]; default?: readonly string[] };
+
+export type QueryParamsSchema = Record<string, QueryParamField>;
+
+type QueryParamValue<F> = F extends { type: 'enum'; values: readonly (infer V)[] }
+  ? V
+  : F extends { type: 'enum[]'; values: readonly (infer V)[] }
+    ? V[]
+    : F extends { type: infer K extends keyof QueryParamTypes }
+      ? QueryParamTypes[K]
+      : never;
+
+/**
+ * Parsed values; fields without a default may be undefined.
+ */
+export type QueryParamsValues<S extends QueryParamsSchema> = {
+  [K in keyof S]: S[K] extends { default: unknown }
+    ? QueryParamValue<S[K]>
+    : QueryParamValue<S[K]> | undefined;
+};
+
+interface QueryParamsWriteOptions {
+  /** Add a history entry or replace the current one (default: "push") */
+  history?: 'push' | 'replace';
+  /** Keep other params ("merge") or drop them ("replace") (default: "merge") */
+  mode?: 'merge' | 'replace';
+  /** Delay the write, e.g. for search inputs; later writes restart the timer */
+  debounce?: number;
+}
+
+interface UseQueryParamsOptions extends QueryParamsWriteOptions {
+  /** Array encoding in the URL (default: "repeat") */
+  arrayFormat?: QueryArrayFormat;
+}
+
+type SetQueryParams<S extends QueryParamsSchema> = (
+  next:
+    | Partial<QueryParamsValues<S>>
+    | ((prev: QueryParamsValues<S>) => Partial<QueryParamsValues<S>>),
+  options?: QueryParamsWriteOptions,
+) => void;
+
+const toQuerySchema = (schema: QueryParamsSchema): QuerySchema =>
+  Object.fromEntries(
+    Object.entries(schema).map(([key, field]) => [
+      key,
+      field.type === 'enum' ? 'string' : field.type === 'enum[]' ? 'string[]' : field.type,
+    ]),
+  );
+
+const normalizeParam = (value: unknown, field: QueryParamField) => {
+  const allowed = 'values' in field ? field.values : null;
+
+  const isValid = (item: unknown) =>
+    item !== null &&
+    item !== undefined &&
+    (typeof item !== 'object' || item instanceof Date) &&
+    (!allowed || allowed.includes(item as string));
+
+  if (field.type.endsWith('[]')) {
+    const items = (Array.isArray(value) ? value : [value]).filter(isValid);
+    return items.length ? items : field.default;
+  }
+
+  return isValid(value) ? value : field.default;
+};
+
+const parseParams = <S extends QueryParamsSchema>(
+  search: string,
+  schema: S,
+  arrayFormat?: QueryArrayFormat,
+): QueryParamsValues<S> => {
+  const parsed = parseQuery<Record<string, unknown>>(search, {
+    schema: toQuerySchema(schema),
+    arrayFormat,
+  });
+
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, field]) => [key, normalizeParam(parsed[key], field)]),
+  ) as QueryParamsValues<S>;
+};
+
+/** `tags`, `tags[]` and `tags[0]` all belong to the `tags` param */
+const paramName = (key: string) => key.split('[')[0];
+
+const isDefaultValue = (value: unknown, field: QueryParamField | undefined) =>
+  field?.default !== undefined && JSON.stringify(value) === JSON.stringify(field.default);
+
+/**
+ * Typed URL search state. Parses `location.search` with the schema and
+ * writes back through react-router's `navigate`; values equal to their
+ * default are left out of the URL.
+ *
+ * Define the schema outside the component so parsed values stay memoized.
+ */
+export function useQueryParams<S extends QueryParamsSchema>(
+  schema: S,
+  options: UseQueryParamsOptions = {},
+): readonly [QueryParamsValues<S>, SetQueryParams<S>] {
+  const { arrayFormat, history = 'push', mode = 'merge', debounce = 0 } = options;
+
+  const { pathname, search, hash } = useAppLocation();
+  const navigate = useNavigate();
+
+  const params = useMemo(
+    () => parseParams(search, schema, arrayFormat),
+    [search, schema, arrayFormat],
+  );
+
+  /** Latest location, so delayed writes never apply to a stale URL */
+  const latest = useRef({ pathname, search, hash, schema });
+  const pending = useRef<{ values: Record<string, unknown>; options: QueryParamsWriteOptions }>(
+    null,
+  );
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => {
+    latest.current = { pathname, search, hash, schema };
+  }, [pathname, search, hash, schema]);
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const flush = useCallback(() => {
+    clearTimeout(timer.current);
+
+    const write = pending.current;
+    pending.current = null;
+    if (!write) return;
+
+    const { pathname, search, hash, schema } = latest.current;
+    const writeMode = write.options.mode ?? mode;
+    const searchParams = new URLSearchParams(writeMode === 'merge' ? search : '');
+
+    Object.keys(write.values).forEach((name) => {
+      Array.from(searchParams.keys())
+        .filter((key) => paramName(key) === name)
+        .forEach((key) => searchParams.delete(key));
+    });
+
+    const values = Object.fromEntries(
+      Object.entries(write.values).filter(([name, value]) => !isDefaultValue(value, schema[name])),
+    );
+
+    new URLSearchParams(generateQuery(values, { arrayFormat })).forEach((value, key) => {
+      searchParams.append(key, value);
+    });
+
+    const nextSearch = searchParams.toString();
+    if (nextSearch === search.replace(/^\?/, '')) return;
+
+    /** Writes made before the next render build on this one */
+    latest.current = { ...latest.current, search: nextSearch ? `?${nextSearch}` : '' };
+
+    navigate(
+      { pathname, search: nextSearch ? `?${nextSearch}` : '', hash },
+      { replace: (write.options.history ?? history) === 'replace' },
+    );
+  }, [arrayFormat, history, mode, navigate]);
+
+  const setParams = useCallback<SetQueryParams<S>>(
+    (next, writeOptions = {}) => {
+      const { search, schema } = latest.current;
+      const prev = {
+        ...parseParams(search, schema as S, arrayFormat),
+        ...pending.current?.values,
+      } as QueryParamsValues<S>;
+
+      pending.current = {
+        values: { ...pending.current?.values, ...(next instanceof Function ? next(prev) : next) },
+        options: writeOptions,
+      };
+
+      const delay = writeOptions.debounce ?? debounce;
+
+      if (delay > 0) {
+        clearTimeout(timer.current);
+        timer.current = setTimeout(flush, delay);
+      } else {
+        flush();
+      }
+    },
+    [arrayFormat, debounce, flush],
+  );
+
+  return [params, setParams] as const;
+}
+
+export default useQueryParams;
@@ -0,0 +1,59 @@
+import { useCallback, useMemo, useState, useSyncExternalStore } from 'react';
+
+import { local, type StorageInstance, type StorageSetOptions } from '../lib/storage';
+
+interface UseStorageStateOptions {
+  /** Storage instance to persist to (default: `local`) */
+  storage?: StorageInstance;
+  /** Expiry applied to every write */
+  setOptions?: StorageSetOptions;
+}
+
+type SetStorageState<T> = (next: T | ((prev: T) => T)) => void;
+
+/**
+ * `useState` that persists to storage and stays in sync across components
+ * in this tab and across browser tabs. Like `useState`, only the first
+ * `initialValue` is used, so inline defaults (`{}`) are safe.
+ */
+export function useStorageState<T>(
+  key: string,
+  initialValue: T,
+  { storage = local, setOptions }: UseStorageStateOptions = {},
+): readonly [T, SetStorageState<T>, () => void] {
+  const subscribe = useCallback(
+    (callback: () => void) => storage.subscribe(key, callback),
+    [storage, key],
+  );
+
+  const getSnapshot = useCallback(() => storage.raw(key), [storage, key]);
+
+  const raw = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  /** Kept from the first render, so the value only changes with `raw` */
+  const [fallback] = useState(initialValue);
+
+  const value = useMemo(
+    () => (raw === null ? fallback : storage.getOr(key, fallback)),
+    [raw, storage, key, fallback],
+  );
+
+  const setValue = useCallback<SetStorageState<T>>(
+    (next) => {
+      const prev = storage.getOr(key, fallback);
+      const resolved = next instanceof Function ? next(prev) : next;
+      storage.set(key, resolved, setOptions);
+    },
+    [storage, key, fallback, setOptions],
+  );
+
+  const remove = useCallback(() => storage.remove(key), [storage, key]);
+
+  return [value, setValue, remove] as const;
+}
+
+export default useStorageState;
+
+function getServerSnapshot() {
+  return null; // Nothing is persisted on the server, render the initial value
+}
@@ -0,0 +1,551 @@
+import {
+  generateQuery,
+  getEndpoint,
+  type GenerateQueryOptions,
+  type SharedFeatures,
+} from "../utils/api-utils";
+import { retryWithBackoff } from "../utils/function-utils";
+
+import { CookieManager } from "./cookie";
+import { FormDataBuilder } from "./form-data";
+
+/**
+ * `config` means the request could not be built, e.g. no endpoint of a
+ * shared feature matches the role; nothing was sent.
+ */
+export type ApiErrorKind = "network" | "timeout" | "abort" | "http" | "config";
+
+/**
+ * Single error type for every failure of an API client request.
+ */
+export class ApiError<TBody = unknown> extends Error {
+  readonly kind: ApiErrorKind;
+  readonly method: string;
+  readonly url: string;
+  /** HTTP status, 0 when no response was received */
+  readonly status: number;
+  /** Parsed response body for `http` errors */
+  readonly body: TBody | undefined;
+  /** Response headers for `http` errors */
+  readonly headers: Headers | undefined;
+  readonly cause: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    details: {
+      method: string;
+      url: string;
+      status?: number;
+      body?: TBody;
+      headers?: Headers;
+      cause?: unknown;
+    }
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.method = details.method;
+    this.url = details.url;
+    this.status = details.status ?? 0;
+    this.body = details.body;
+    this.headers = details.headers;
+    this.cause = details.cause;
+  }
+}
+
+export type ApiMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * A plain path/URL, or a shared feature whose endpoint depends on the role.
+ * `path` is appended to the resolved feature endpoint (e.g. `/${id}`).
+ */
+export type ApiTarget = string | { feature: string; path?: string };
+
+export type ApiBody =
+  | FormDataBuilder
+  | FormData
+  | URLSearchParams
+  | Blob
+  | string
+  | object
+  | null
+  | undefined;
+
+/**
+ * Retry settings. Only idempotent methods are retried, after network errors,
+ * timeouts and the listed statuses; `Retry-After` overrides the backoff delay.
+ */
+export interface ApiRetryOptions {
+  /** Number of retry attempts (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds (default: 300) */
+  baseDelay?: number;
+  /** Upper bound for a single delay, including `Retry-After` (default: 30000) */
+  maxDelay?: number;
+  /** Methods that may be retried (default: GET, PUT, DELETE) */
+  methods?: ApiMethod[];
+  /** Statuses that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  statuses?: number[];
+}
+
+/**
+ * Request as seen (and possibly replaced) by request interceptors.
+ */
+export interface ApiRequestContext {
+  method: ApiMethod;
+  url: string;
+  headers: Record<string, string>;
+  body: BodyInit | undefined;
+  signal?: AbortSignal;
+}
+
+export type ApiRequestInterceptor = (
+  request: ApiRequestContext
+) => ApiRequestContext | void | Promise<ApiRequestContext | void>;
+
+/**
+ * Runs before the response body is read; may return a replacement response.
+ */
+export type ApiResponseInterceptor = (
+  response: Response,
+  request: ApiRequestContext
+) => Response | void | Promise<Response | void>;
+
+export interface ApiRequestOptions {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  query?: Record<string, any>;
+  body?: ApiBody;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Timeout in milliseconds (overrides the client default) */
+  timeout?: number;
+  /** How to read the response body (default: by content type) */
+  responseType?: "json" | "text" | "blob" | "auto";
+  /** Retry settings (overrides the client default), `false` disables retries */
+  retry?: number | ApiRetryOptions | false;
+}
+
+export interface ApiClientConfig {
+  baseUrl: string;
+  sharedFeatures?: SharedFeatures;
+  /** Current user role, used to resolve role-based feature endpoints */
+  getRole?: () => string | null | undefined;
+  /** Name of the cookie holding the bearer token */
+  tokenCookie?: string;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** Query serialization: array format, date format, key sorting */
+  queryOptions?: GenerateQueryOptions;
+  /** Default timeout in milliseconds */
+  timeout?: number;
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Default retry settings; a number sets `retries` (default: no retries) */
+  retry?: number | ApiRetryOptions | false;
+  /**
+   * Called once on 401 while concurrent requests wait for it; the requests
+   * are then replayed. Return the new token (or store it in `tokenCookie`
+   * and return nothing); return null when the session cannot be refreshed.
+   */
+  refreshToken?: () => Promise<string | null | void>;
+}
+
+const RETRY_METHODS: ApiMethod[] = ["GET", "PUT", "DELETE"];
+const RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const isAbsoluteUrl = (url: string) => /^[a-z][a-z\d+\-.]*:\/\//i.test(url);
+
+const joinUrl = (baseUrl: string, path: string): string => {
+  if (isAbsoluteUrl(path) || !baseUrl) return path;
+  return `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+};
+
+/**
+ * Only plain objects and arrays are sent as JSON; typed arrays, streams and
+ * other fetch bodies pass through untouched.
+ */
+const isPlainBody = (body: ApiBody): body is object => {
+  if (typeof body !== "object" || body === null) return false;
+  if (Array.isArray(body)) return true;
+
+  const proto = Object.getPrototypeOf(body);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Parses `Retry-After` (seconds or an HTTP date) into milliseconds.
+ */
+const parseRetryAfter = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Combines signals so that aborting any of them aborts the result.
+ */
+const anySignal = (signals: AbortSignal[]): AbortSignal | undefined => {
+  if (signals.length <= 1) return signals[0];
+  if (typeof AbortSignal.any === "function") return AbortSignal.any(signals);
+
+  const controller = new AbortController();
+
+  signals.forEach((signal) => {
+    if (signal.aborted) controller.abort(signal.reason);
+    signal.addEventListener("abort", () => controller.abort(signal.reason), {
+      once: true,
+    });
+  });
+
+  return controller.signal;
+};
+
+const resolveRetry = (
+  retry: ApiRequestOptions["retry"]
+): Required<ApiRetryOptions> | null => {
+  if (!retry) return null;
+
+  const options = typeof retry === "number" ? { retries: retry } : retry;
+
+  return {
+    retries: 2,
+    baseDelay: 300,
+    maxDelay: 30000,
+    methods: RETRY_METHODS,
+    statuses: RETRY_STATUSES,
+    ...options,
+  };
+};
+
+/**
+ * Converts a request body to something fetch accepts; plain objects and
+ * arrays become JSON.
+ */
+const toRequestBody = (
+  body: ApiBody,
+  headers: Record<string, string>
+): BodyInit | undefined => {
+  if (body === undefined || body === null) return undefined;
+
+  if (body instanceof FormDataBuilder) return body.build();
+
+  if (isPlainBody(body)) {
+    headers["Content-Type"] ??= "application/json";
+    return JSON.stringify(body);
+  }
+
+  return body as BodyInit;
+};
+
+const readBody = async (
+  response: Response,
+  responseType: ApiRequestOptions["responseType"] = "auto"
+): Promise<unknown> => {
+  if (response.status === 204 || response.status === 205) return undefined;
+
+  if (responseType === "blob") return response.blob();
+  if (responseType === "text") return response.text();
+
+  const text = await response.text();
+  const isJson =
+    responseType === "json" ||
+    (response.headers.get("content-type") ?? "").includes("json");
+
+  if (!isJson || !text) return text || undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Creates an HTTP client that resolves role-based endpoints with
+ * `getEndpoint`, serializes query params with `generateQuery`, attaches
+ * the bearer token cookie and throws `ApiError` for every failure.
+ * Requests pass through interceptors, can be retried with backoff and
+ * are replayed after a single shared token refresh on 401.
+ *
+ * @param config - Base URL, shared features, role, token and retry settings
+ * @returns Client with `request`, `get`, `post`, `put`, `patch`, `delete`
+ * and `interceptors`
+ */
+export const createApiClient = (config: ApiClientConfig) => {
+  const requestInterceptors = new Set<ApiRequestInterceptor>();
+  const responseInterceptors = new Set<ApiResponseInterceptor>();
+
+  /**
+   * Token returned by `refreshToken` and the cookie value at that time;
+   * it wins over the cookie until the cookie changes (logout, new login).
+   */
+  let accessToken: { token: string; cookie: string | null } | null = null;
+  /** Bumped after every successful refresh */
+  let tokenVersion = 0;
+  let refreshing: Promise<boolean> | null = null;
+
+  const readTokenCookie = () =>
+    config.tokenCookie ? CookieManager.get(config.tokenCookie) : null;
+
+  const resolveUrl = (
+    method: ApiMethod,
+    target: ApiTarget,
+    query?: ApiRequestOptions["query"]
+  ) => {
+    let path: string;
+
+    if (typeof target === "string") {
+      path = target;
+    } else {
+      const role = config.getRole?.() ?? null;
+      const endpoint = getEndpoint(role, target.feature, config.sharedFeatures ?? {});
+
+      if (!endpoint) {
+        throw new ApiError(
+          "config",
+          `[ApiClient] No endpoint for feature "${target.feature}" and role "${role}"`,
+          { method, url: target.path ?? "" }
+        );
+      }
+
+      path = target.path ? joinUrl(endpoint, target.path) : endpoint;
+    }
+
+    const url = joinUrl(config.baseUrl, path);
+    const queryString = query ? generateQuery(query, config.queryOptions) : "";
+
+    if (!queryString) return url;
+
+    return `${url}${url.includes("?") ? "&" : "?"}${queryString}`;
+  };
+
+  const buildHeaders = (extra?: Record<string, string>) => {
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      ...config.headers,
+      ...extra,
+    };
+
+    const cookie = readTokenCookie();
+    if (accessToken && accessToken.cookie !== cookie) accessToken = null;
+
+    const token = accessToken?.token ?? cookie;
+
+    if (token && !headers.Authorization) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    return headers;
+  };
+
+  /**
+   * Runs `refreshToken` once for all requests that hit 401 meanwhile.
+   */
+  const refreshAccessToken = (): Promise<boolean> => {
+    if (!refreshing) {
+      refreshing = Promise.resolve()
+        .then(() => config.refreshToken!())
+        .then((token) => {
+          if (token === null) return false;
+
+          /** Without a returned token, the refresh stored it in the cookie */
+          accessToken =
+            typeof token === "string" ? { token, cookie: readTokenCookie() } : null;
+          tokenVersion++;
+          return true;
+        })
+        .catch(() => false)
+        .finally(() => {
+          refreshing = null;
+        });
+    }
+
+    return refreshing;
+  };
+
+  /**
+   * Sends a single attempt through the interceptors.
+   */
+  const send = async (
+    method: ApiMethod,
+    url: string,
+    headers: Record<string, string>,
+    body: BodyInit | undefined,
+    options: ApiRequestOptions
+  ): Promise<unknown> => {
+    let context: ApiRequestContext = {
+      method,
+      url,
+      headers: buildHeaders(headers),
+      body,
+      signal: options.signal,
+    };
+
+    for (const interceptor of requestInterceptors) {
+      context = (await interceptor(context)) ?? context;
+    }
+
+    const timeout = options.timeout ?? config.timeout;
+    const timeoutSignal =
+      timeout !== undefined ? AbortSignal.timeout(timeout) : undefined;
+    const signal = anySignal(
+      [context.signal, timeoutSignal].filter((s): s is AbortSignal => !!s)
+    );
+    const details = { method: context.method, url: context.url };
+
+    /** Normalizes a failed fetch or body read */
+    const toTransportError = (error: unknown): ApiError => {
+      if (context.signal?.aborted) {
+        return new ApiError("abort", `${method} ${url} was aborted`, {
+          ...details,
+          cause: error,
+        });
+      }
+
+      if (
+        timeoutSignal?.aborted ||
+        (error instanceof DOMException && error.name === "TimeoutError")
+      ) {
+        return new ApiError("timeout", `${method} ${url} timed out after ${timeout}ms`, {
+          ...details,
+          cause: error,
+        });
+      }
+
+      return new ApiError("network", `${method} ${url} failed: network error`, {
+        ...details,
+        cause: error,
+      });
+    };
+
+    let response: Response;
+
+    try {
+      response = await (config.fetch ?? fetch)(context.url, {
+        method: context.method,
+        headers: context.headers,
+        body: context.body,
+        signal,
+      });
+    } catch (error) {
+      throw toTransportError(error);
+    }
+
+    for (const interceptor of responseInterceptors) {
+      response = (await interceptor(response, context)) ?? response;
+    }
+
+    let data: unknown;
+
+    try {
+      data = await readBody(response, options.responseType);
+    } catch (error) {
+      throw toTransportError(error);
+    }
+
+    if (!response.ok) {
+      throw new ApiError("http", `${method} ${url} failed with ${response.status}`, {
+        ...details,
+        status: response.status,
+        body: data,
+        headers: response.headers,
+      });
+    }
+
+    return data;
+  };
+
+  const request = async <T = unknown>(
+    method: ApiMethod,
+    target: ApiTarget,
+    options: ApiRequestOptions = {}
+  ): Promise<T> => {
+    const url = resolveUrl(method, target, options.query);
+    const headers = { ...options.headers };
+    const body = toRequestBody(options.body, headers);
+    const retry = resolveRetry(
+      options.retry !== undefined ? options.retry : config.retry
+    );
+
+    const run = () =>
+      retryWithBackoff(() => send(method, url, headers, body, options), {
+        retries: retry && retry.methods.includes(method) ? retry.retries : 0,
+        baseDelay: retry?.baseDelay,
+        maxDelay: retry?.maxDelay,
+        signal: options.signal,
+        shouldRetry: (error) =>
+          error instanceof ApiError &&
+          (error.kind === "network" ||
+            error.kind === "timeout" ||
+            (error.kind === "http" && !!retry?.statuses.includes(error.status))),
+        getDelay: (error) =>
+          error instanceof ApiError
+            ? parseRetryAfter(error.headers?.get("retry-after"))
+            : null,
+      }).catch((error) => {
+        /** Aborted while waiting for the next attempt */
+        if (error instanceof ApiError || !options.signal?.aborted) throw error;
+        throw new ApiError("abort", `${method} ${url} was aborted`, {
+          method,
+          url,
+          cause: error,
+        });
+      });
+
+    const version = tokenVersion;
+
+    try {
+      return (await run()) as T;
+    } catch (error) {
+      const isUnauthorized =
+        error instanceof ApiError && error.kind === "http" && error.status === 401;
+
+      if (!isUnauthorized || !config.refreshToken) throw error;
+
+      /** Another request already refreshed the token after this one was sent */
+      if (version === tokenVersion && !(await refreshAccessToken())) throw error;
+
+      return (await run()) as T;
+    }
+  };
+
+  return {
+    request,
+    interceptors: {
+      /** Adds a before-request interceptor; returns a function removing it */
+      request: {
+        use: (interceptor: ApiRequestInterceptor) => {
+          requestInterceptors.add(interceptor);
+          return () => {
+            requestInterceptors.delete(interceptor);
+          };
+        },
+      },
+      /** Adds an after-response interceptor; returns a function removing it */
+      response: {
+        use: (interceptor: ApiResponseInterceptor) => {
+          responseInterceptors.add(interceptor);
+          return () => {
+            responseInterceptors.delete(interceptor);
+          };
+        },
+      },
+    },
+    get: <T = unknown>(target: ApiTarget, options?: ApiRequestOptions) =>
+      request<T>("GET", target, options),
+    post: <T = unknown>(target: ApiTarget, body?: ApiBody, options?: ApiRequestOptions) =>
+      request<T>("POST", target, { ...options, body }),
+    put: <T = unknown>(target: ApiTarget, body?: ApiBody, options?: ApiRequestOptions) =>
+      request<T>("PUT", target, { ...options, body }),
+    patch: <T = unknown>(target: ApiTarget, body?: ApiBody, options?: ApiRequestOptions) =>
+      request<T>("PATCH", target, { ...options, body }),
+    delete: <T = unknown>(target: ApiTarget, options?: ApiRequestOptions) =>
+      request<T>("DELETE", target, options),
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
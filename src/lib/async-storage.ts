@@ -0,0 +1,209 @@
+/**
+ * Key-value interface `createAsyncStorage` persists to.
+ * Values are stored as-is (structured clone), so Blobs and Files need no JSON.
+ */
+export interface AsyncStorageBackend {
+  get: (key: string) => Promise<unknown>;
+  set: (key: string, value: unknown) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+  clear: () => Promise<void>;
+}
+
+interface IndexedDBBackendOptions {
+  /** Database name (default: "everyday-helper") */
+  dbName?: string;
+  /** Object store name; every store is an isolated namespace (default: "keyval") */
+  storeName?: string;
+}
+
+/**
+ * Opens the database and makes sure the object store exists.
+ * A missing store is created by reopening with the next version.
+ */
+const openDatabase = (
+  dbName: string,
+  storeName: string,
+  version?: number
+): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, version);
+    let isBlocked = false;
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+
+      /** Opened after the blocked rejection: nobody holds this connection */
+      if (isBlocked) {
+        db.close();
+        return;
+      }
+
+      if (db.objectStoreNames.contains(storeName)) {
+        resolve(db);
+        return;
+      }
+
+      db.close();
+      openDatabase(dbName, storeName, db.version + 1).then(resolve, reject);
+    };
+
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      isBlocked = true;
+      reject(new Error(`[AsyncStorage] Upgrade of "${dbName}" is blocked`));
+    };
+  });
+
+/**
+ * IndexedDB backend. Each `storeName` gets its own object store, so several
+ * stores can share one database without seeing each other's keys.
+ */
+export const createIndexedDBBackend = ({
+  dbName = "everyday-helper",
+  storeName = "keyval",
+}: IndexedDBBackendOptions = {}): AsyncStorageBackend => {
+  let connection: Promise<IDBDatabase> | null = null;
+
+  const getDatabase = (): Promise<IDBDatabase> => {
+    if (connection) return connection;
+
+    connection = openDatabase(dbName, storeName).then((db) => {
+      /** Another store is being added: let it upgrade, reopen on next use */
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+      };
+      return db;
+    });
+
+    /** Retry opening on the next call instead of caching the failure */
+    connection.catch(() => {
+      connection = null;
+    });
+
+    return connection;
+  };
+
+  /** Runs a request and resolves once its transaction has completed */
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await getDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? request.error);
+    });
+  };
+
+  return {
+    get: (key) => run("readonly", (store) => store.get(key)),
+    set: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    remove: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+    keys: async () => {
+      const keys = await run("readonly", (store) => store.getAllKeys());
+      return keys.map(String);
+    },
+    clear: async () => {
+      await run("readwrite", (store) => store.clear());
+    },
+  };
+};
+
+/**
+ * In-memory async backend. Stand-in for IndexedDB in tests (happy-dom has
+ * no IndexedDB) and the fallback where IndexedDB is unavailable.
+ */
+export const createMemoryAsyncBackend = (): AsyncStorageBackend => {
+  const items = new Map<string, unknown>();
+
+  return {
+    get: async (key) => items.get(key),
+    set: async (key, value) => {
+      items.set(key, value);
+    },
+    remove: async (key) => {
+      items.delete(key);
+    },
+    keys: async () => [...items.keys()],
+    clear: async () => items.clear(),
+  };
+};
+
+interface AsyncStorageOptions extends IndexedDBBackendOptions {
+  /** Custom backend, e.g. `createMemoryAsyncBackend()` in tests */
+  backend?: AsyncStorageBackend;
+}
+
+/**
+ * Async counterpart of `createStorage` for payloads that exceed the
+ * localStorage quota. Backed by IndexedDB, falls back to memory without it.
+ */
+export const createAsyncStorage = ({
+  backend,
+  ...options
+}: AsyncStorageOptions = {}) => {
+  let resolved: AsyncStorageBackend | undefined = backend;
+
+  const getBackend = (): AsyncStorageBackend => {
+    if (resolved) return resolved;
+
+    if (typeof indexedDB === "undefined") {
+      console.warn("[AsyncStorage] IndexedDB is not available, using memory");
+      resolved = createMemoryAsyncBackend();
+    } else {
+      resolved = createIndexedDBBackend(options);
+    }
+
+    return resolved;
+  };
+
+  return {
+    /** Save any structured-cloneable value (objects, Blobs, Files, ...) */
+    set: <T>(key: string, value: T): Promise<void> =>
+      getBackend().set(key, value),
+
+    /** Get a value, or null when missing */
+    get: async <T>(key: string): Promise<T | null> => {
+      const value = await getBackend().get(key);
+      return value === undefined ? null : (value as T);
+    },
+
+    /** Get with fallback default value */
+    getOr: async <T>(key: string, defaultValue: T): Promise<T> => {
+      const value = await getBackend().get(key);
+      return value === undefined ? defaultValue : (value as T);
+    },
+
+    /** Remove a key */
+    remove: (key: string): Promise<void> => getBackend().remove(key),
+
+    /** Check if key exists */
+    has: async (key: string): Promise<boolean> =>
+      (await getBackend().get(key)) !== undefined,
+
+    /** Clear all data in this store */
+    clear: (): Promise<void> => getBackend().clear(),
+
+    /** Get all keys in this store */
+    keys: (): Promise<string[]> => getBackend().keys(),
+  };
+};
+
+export type AsyncStorageInstance = ReturnType<typeof createAsyncStorage>;
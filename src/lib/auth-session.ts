@@ -0,0 +1,254 @@
+import { CookieManager } from "./cookie";
+
+/**
+ * Registered JWT claims plus whatever the issuer adds.
+ */
+export interface JwtClaims {
+  /** Expiry, seconds since the epoch */
+  exp?: number;
+  /** Issued at, seconds since the epoch */
+  iat?: number;
+  sub?: string;
+  role?: string;
+  roles?: string[];
+  [claim: string]: unknown;
+}
+
+export interface AuthSessionOptions {
+  /** Cookie holding the access token (default: "access_token") */
+  tokenCookie?: string;
+  /** Reads the roles from the claims (default: `roles`, then `role`) */
+  getRoles?: (claims: JwtClaims) => string[];
+  /** Treat the token as expired this many ms early, for clock skew (default: 0) */
+  leeway?: number;
+}
+
+/**
+ * Session state; the same object is returned until the token changes or expires.
+ */
+export interface AuthSessionSnapshot {
+  token: string | null;
+  claims: JwtClaims | null;
+  isLoggedIn: boolean;
+  isExpired: boolean;
+  /** Expiry as a timestamp in ms, null when the token has no `exp` */
+  expiresAt: number | null;
+  roles: string[];
+  /** First role, ready for `getEndpoint(role, ...)`; null when logged out */
+  role: string | null;
+}
+
+/** Longest delay `setTimeout` supports */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+const decodeBase64Url = (value: string): string => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Decodes the payload of a JWT. The signature is NOT verified, so use the
+ * claims for UI decisions only and let the server enforce access.
+ *
+ * @param token - Encoded JWT
+ * @returns Claims, or null when the token is missing or not a JWT
+ */
+export const decodeJwt = <T extends JwtClaims = JwtClaims>(
+  token: string | null | undefined
+): T | null => {
+  const payload = token?.split(".")[1];
+  if (!payload) return null;
+
+  try {
+    const claims: unknown = JSON.parse(decodeBase64Url(payload));
+    return typeof claims === "object" && claims !== null ? (claims as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+const defaultGetRoles = (claims: JwtClaims): string[] => {
+  if (Array.isArray(claims.roles)) return claims.roles.map(String);
+  return typeof claims.role === "string" ? [claims.role] : [];
+};
+
+const LOGGED_OUT: AuthSessionSnapshot = Object.freeze({
+  token: null,
+  claims: null,
+  isLoggedIn: false,
+  isExpired: false,
+  expiresAt: null,
+  roles: [],
+  role: null,
+});
+
+/**
+ * Reads the access token from a cookie and exposes its claims. Opaque
+ * (non-JWT) tokens count as logged in without expiry or roles.
+ *
+ * @param options - Token cookie, role claim reader and leeway
+ */
+export const createAuthSession = (options: AuthSessionOptions = {}) => {
+  const {
+    tokenCookie = "access_token",
+    getRoles = defaultGetRoles,
+    leeway = 0,
+  } = options;
+
+  let snapshot = LOGGED_OUT;
+
+  const getToken = () => CookieManager.get(tokenCookie) || null;
+
+  const getExpiresAt = (claims: JwtClaims | null) =>
+    typeof claims?.exp === "number" ? claims.exp * 1000 - leeway : null;
+
+  const session = {
+    getToken,
+
+    getClaims: <T extends JwtClaims = JwtClaims>(): T | null =>
+      decodeJwt<T>(getToken()),
+
+    /** Token present and not expired */
+    isLoggedIn: (): boolean => session.getSnapshot().isLoggedIn,
+
+    /** Token present but past its `exp` */
+    isExpired: (): boolean => session.getSnapshot().isExpired,
+
+    /**
+     * Milliseconds until the token expires (0 when expired),
+     * or null without a token or `exp` claim.
+     */
+    expiresIn: (): number | null => {
+      const expiresAt = getExpiresAt(session.getClaims());
+      return expiresAt === null ? null : Math.max(0, expiresAt - Date.now());
+    },
+
+    /** Roles of the current token, empty when logged out */
+    getRoles: (): string[] => session.getSnapshot().roles,
+
+    /** First role, for `getEndpoint(role, ...)` and `createApiClient({ getRole })` */
+    getRole: (): string | null => session.getSnapshot().role,
+
+    /**
+     * Checks whether a logged-in user has the role, or any of the roles.
+     */
+    hasRole: (role: string | string[]): boolean => {
+      const { isLoggedIn, roles } = session.getSnapshot();
+      const wanted = Array.isArray(role) ? role : [role];
+      return isLoggedIn && wanted.some((item) => roles.includes(item));
+    },
+
+    getSnapshot: (): AuthSessionSnapshot => {
+      const token = getToken();
+
+      if (!token) {
+        snapshot = LOGGED_OUT;
+        return snapshot;
+      }
+
+      const claims = decodeJwt(token);
+      const expiresAt = getExpiresAt(claims);
+      const isExpired = expiresAt !== null && expiresAt <= Date.now();
+
+      if (token !== snapshot.token || isExpired !== snapshot.isExpired) {
+        const roles = claims && !isExpired ? getRoles(claims) : [];
+
+        snapshot = {
+          token,
+          claims,
+          isLoggedIn: !isExpired,
+          isExpired,
+          expiresAt,
+          roles,
+          role: roles[0] ?? null,
+        };
+      }
+
+      return snapshot;
+    },
+
+    /**
+     * Subscribes to login, logout (token cookie changes) and expiry.
+     * @returns Unsubscribe function
+     */
+    subscribe: (listener: () => void): (() => void) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      /** Wakes up when the current token expires */
+      const watchExpiry = () => {
+        clearTimeout(timer);
+        const expiresIn = session.expiresIn();
+
+        if (expiresIn !== null && expiresIn > 0) {
+          timer = setTimeout(() => {
+            watchExpiry();
+            listener();
+          }, Math.min(expiresIn, MAX_TIMEOUT));
+        }
+      };
+
+      const unsubscribe = CookieManager.subscribe(() => {
+        watchExpiry();
+        listener();
+      });
+
+      watchExpiry();
+
+      return () => {
+        clearTimeout(timer);
+        unsubscribe();
+      };
+    },
+
+    /**
+     * Calls `refresh` shortly before the token expires, and again for every
+     * new token (e.g. the one the refresh stored).
+     *
+     * @param refresh - Obtains and stores a new token
+     * @param before - How long before expiry to refresh, in ms (default: 60000)
+     * @returns Function that cancels the schedule
+     */
+    scheduleRefresh: (
+      refresh: () => unknown,
+      before: number = 60_000
+    ): (() => void) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let scheduledFor: string | null = null;
+
+      const schedule = () => {
+        const token = getToken();
+        if (token === scheduledFor) return;
+
+        scheduledFor = token;
+        clearTimeout(timer);
+
+        const expiresIn = session.expiresIn();
+        if (expiresIn === null) return;
+
+        timer = setTimeout(
+          () => Promise.resolve().then(refresh).catch(() => undefined),
+          Math.min(Math.max(0, expiresIn - before), MAX_TIMEOUT)
+        );
+      };
+
+      const unsubscribe = CookieManager.subscribe(schedule);
+      schedule();
+
+      return () => {
+        clearTimeout(timer);
+        unsubscribe();
+      };
+    },
+  };
+
+  return session;
+};
+
+export type AuthSession = ReturnType<typeof createAuthSession>;
+
+/** Session over the `access_token` cookie, used by `useAuthSession` by default */
+export const authSession = createAuthSession();
@@ -1,14 +1,203 @@
 /**
  * Options for setting cookies.
  */
-interface CookieOptions {
+export interface CookieOptions {
+  /** Cookie path (default: "/") */
   path?: string;
-  domain: string;
+  /** Cookie domain; omitted means host-only */
+  domain?: string;
+  /** Send only over HTTPS (forced on for `sameSite: "None"` and `partitioned`) */
   secure?: boolean;
+  /** Expiry: number of days from now, a date string or a Date */
   expires?: number | string | Date;
+  /** Lifetime in seconds; takes precedence over `expires` in browsers */
+  maxAge?: number;
   sameSite?: "Strict" | "Lax" | "None";
+  /** CHIPS: store the cookie per top-level site */
+  partitioned?: boolean;
+  /** Eviction priority (Chromium) */
+  priority?: "Low" | "Medium" | "High";
+  /** Hide the cookie from scripts; only honored in `Set-Cookie` headers */
+  httpOnly?: boolean;
 }
 
+/**
+ * Options for reading JSON cookies.
+ */
+interface CookieJSONOptions<T> {
+  /** Runtime check for the parsed value; failing values read as null */
+  validate?: (value: unknown) => value is T;
+  /** `Cookie` request header to read from instead of `document.cookie` */
+  header?: string | null;
+}
+
+const DEFAULT_OPTIONS: CookieOptions = {
+  path: "/",
+};
+
+/**
+ * Decodes a cookie name or value, keeping it as-is when it is not valid
+ * percent-encoding.
+ */
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parses a cookie string ("a=1; b=2") into a record, following RFC 6265:
+ * pairs are split on the first "=", so values may contain "=" (base64, JWT),
+ * surrounding double quotes are removed and the first occurrence of a name wins.
+ */
+export const parseCookies = (cookieString: string): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+
+  if (!cookieString) return cookies;
+
+  for (const pair of cookieString.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator === -1) continue;
+
+    const name = safeDecode(pair.slice(0, separator).trim());
+    if (!name || Object.prototype.hasOwnProperty.call(cookies, name)) continue;
+
+    let value = pair.slice(separator + 1).trim();
+    if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    cookies[name] = safeDecode(value);
+  }
+
+  return cookies;
+};
+
+/**
+ * Parses a `Cookie` request header (e.g. `req.headers.cookie` in Node).
+ * Missing headers yield an empty record.
+ */
+export const parseCookieHeader = (
+  header: string | null | undefined
+): Record<string, string> => parseCookies(header ?? "");
+
+/**
+ * Resolves the `expires` option to a Date, or null when it is not usable.
+ */
+const toExpiryDate = (expires: CookieOptions["expires"]): Date | null => {
+  if (expires === undefined) return null;
+
+  let date: Date;
+
+  if (typeof expires === "number") {
+    date = new Date();
+    date.setDate(date.getDate() + expires);
+  } else {
+    date = new Date(expires);
+  }
+
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Builds a cookie string, usable both for `document.cookie` and as a
+ * `Set-Cookie` response header value.
+ * @param name - Cookie name
+ * @param value - Cookie value
+ * @param options - Cookie options (path defaults to "/")
+ */
+export const serializeCookie = (
+  name: string,
+  value: string,
+  options: CookieOptions = {}
+): string => {
+  const { path, domain, maxAge, sameSite, partitioned, priority, httpOnly } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+
+  let cookieString = `${encodeURIComponent(name)}=${encodeURIComponent(
+    value
+  )}`;
+
+  const date = toExpiryDate(options.expires);
+
+  if (date) {
+    cookieString += `; expires=${date.toUTCString()}`;
+  }
+
+  if (maxAge !== undefined && Number.isFinite(maxAge)) {
+    cookieString += `; max-age=${Math.floor(maxAge)}`;
+  }
+
+  if (path) {
+    cookieString += `; path=${path}`;
+  }
+
+  if (domain) {
+    cookieString += `; domain=${domain}`;
+  }
+
+  if (options.secure || sameSite === "None" || partitioned) {
+    cookieString += `; secure`;
+  }
+
+  if (httpOnly) {
+    cookieString += `; HttpOnly`;
+  }
+
+  if (sameSite) {
+    cookieString += `; SameSite=${sameSite}`;
+  }
+
+  if (partitioned) {
+    cookieString += `; Partitioned`;
+  }
+
+  if (priority) {
+    cookieString += `; Priority=${priority}`;
+  }
+
+  return cookieString;
+};
+
+type CookieListener = () => void;
+
+/** How often `document.cookie` is checked where CookieStore is missing */
+const COOKIE_POLL_INTERVAL = 1000;
+
+const cookieListeners = new Set<CookieListener>();
+let stopWatching: (() => void) | null = null;
+
+const notifyCookieListeners = (): void => {
+  cookieListeners.forEach((listener) => listener());
+};
+
+/**
+ * Watches for cookie changes made outside `CookieManager` (server responses,
+ * other scripts): through the CookieStore `change` event where available,
+ * otherwise by polling `document.cookie`.
+ */
+const watchCookies = (): (() => void) => {
+  if ("cookieStore" in window && window.cookieStore) {
+    const { cookieStore } = window;
+    cookieStore.addEventListener("change", notifyCookieListeners);
+    return () => cookieStore.removeEventListener("change", notifyCookieListeners);
+  }
+
+  let lastCookie = document.cookie;
+
+  const timer = setInterval(() => {
+    if (document.cookie === lastCookie) return;
+    lastCookie = document.cookie;
+    notifyCookieListeners();
+  }, COOKIE_POLL_INTERVAL);
+
+  return () => clearInterval(timer);
+};
+
 /**
  * Utility object for setting, getting, and removing cookies.
  */
@@ -17,57 +206,53 @@ export const CookieManager = {
    * Sets a cookie with optional settings.
    * @param name - Cookie name
    * @param value - Cookie value
-   * @param options - Cookie options (domain, path, expiry, etc.)
+   * @param options - Cookie options (path defaults to "/")
    */
-  set: (
-    name: string,
-    value: string,
-    options: CookieOptions = {
-      domain: "",
-      path: "/",
-    }
-  ): void => {
+  set: (name: string, value: string, options: CookieOptions = {}): void => {
     if (typeof document === "undefined") return;
 
-    let cookieString = `${encodeURIComponent(name)}=${encodeURIComponent(
-      value
-    )}`;
-
-    if (options.expires) {
-      let date: Date | null = null;
-
-      if (typeof options.expires === "number") {
-        date = new Date();
-        date.setDate(date.getDate() + options.expires);
-      } else if (
-        typeof options.expires === "string" ||
-        options.expires instanceof Date
-      ) {
-        date = new Date(options.expires);
-      }
+    /** Browsers drop cookies flagged HttpOnly when written from scripts */
+    document.cookie = serializeCookie(name, value, {
+      ...options,
+      httpOnly: false,
+    });
 
-      if (date && !isNaN(date.getTime())) {
-        cookieString += `; expires=${date.toUTCString()}`;
-      }
-    }
+    notifyCookieListeners();
+  },
 
-    if (options.path) {
-      cookieString += `; path=${options.path}`;
-    }
+  /**
+   * Sets a cookie holding a JSON-serialized value.
+   * @param name - Cookie name
+   * @param value - Any JSON-serializable value
+   * @param options - Cookie options
+   */
+  setJSON: <T>(name: string, value: T, options: CookieOptions = {}): void => {
+    CookieManager.set(name, JSON.stringify(value), options);
+  },
 
-    if (options.domain) {
-      cookieString += `; domain=${options.domain}`;
-    }
+  /**
+   * Reads and parses a JSON cookie.
+   * @param name - Cookie name
+   * @param options - Optional validator and request header to read from
+   * @returns The parsed value, or null when missing, malformed or invalid
+   */
+  getJSON: <T>(name: string, options: CookieJSONOptions<T> = {}): T | null => {
+    const { validate, header } = options;
 
-    if (options.secure) {
-      cookieString += `; secure`;
-    }
+    const raw =
+      header !== undefined
+        ? (parseCookieHeader(header)[name] ?? null)
+        : CookieManager.get(name);
 
-    if (options.sameSite) {
-      cookieString += `; SameSite=${options.sameSite}`;
-    }
+    if (raw === null) return null;
 
-    document.cookie = cookieString;
+    try {
+      const value: unknown = JSON.parse(raw);
+      if (validate && !validate(value)) return null;
+      return value as T;
+    } catch {
+      return null;
+    }
   },
 
   /**
@@ -78,49 +263,71 @@ export const CookieManager = {
   get: (name: string): string | null => {
     if (typeof document === "undefined") return null;
 
-    const cookies = document.cookie.split(";");
+    const cookies = parseCookies(document.cookie);
 
-    for (const cookie of cookies) {
-      const [cookieName, cookieValue] = cookie
-        .trim()
-        .split("=")
-        .map(decodeURIComponent) as [string, string];
+    return Object.prototype.hasOwnProperty.call(cookies, name)
+      ? cookies[name]
+      : null;
+  },
 
-      if (cookieName === name) {
-        return cookieValue;
-      }
-    }
+  /**
+   * Retrieves every cookie visible to the page.
+   * @returns Record of cookie names to values
+   */
+  getAll: (): Record<string, string> => {
+    if (typeof document === "undefined") return {};
 
-    return null;
+    return parseCookies(document.cookie);
   },
 
   /**
    * Removes a cookie by setting its expiry date to the past.
+   * Pass the same options used in `set` (path, domain, partitioned, ...),
+   * otherwise the browser treats it as a different cookie.
    * @param name - Cookie name
-   * @param options - Optional cookie options (domain, path)
+   * @param options - Cookie options the cookie was set with
    */
-  remove: (
-    name: string,
-    options: CookieOptions = {
-      domain: "",
-      path: "/",
-    }
-  ): void => {
+  remove: (name: string, options: CookieOptions = {}): void => {
     if (typeof document === "undefined") return;
 
-    const pastDate = new Date(0);
-    let cookieString = `${encodeURIComponent(
-      name
-    )}=; expires=${pastDate.toUTCString()}`;
+    document.cookie = serializeCookie(name, "", {
+      ...options,
+      httpOnly: false,
+      expires: new Date(0),
+      /** A positive max-age would win over the past expiry */
+      maxAge: undefined,
+    });
 
-    if (options.path) {
-      cookieString += `; path=${options.path}`;
-    }
+    notifyCookieListeners();
+  },
+
+  /**
+   * Subscribes to cookie changes. Changes made through `CookieManager` are
+   * reported right away; other changes via CookieStore or polling.
+   * @param listener - Called after any cookie may have changed
+   * @returns Unsubscribe function
+   */
+  subscribe: (listener: () => void): (() => void) => {
+    cookieListeners.add(listener);
 
-    if (options.domain) {
-      cookieString += `; domain=${options.domain}`;
+    if (!stopWatching && typeof window !== "undefined") {
+      stopWatching = watchCookies();
     }
 
-    document.cookie = cookieString;
+    return () => {
+      cookieListeners.delete(listener);
+
+      if (!cookieListeners.size && stopWatching) {
+        stopWatching();
+        stopWatching = null;
+      }
+    };
+  },
+
+  /**
+   * Notifies subscribers manually, e.g. after a response set a cookie.
+   */
+  notify: (): void => {
+    notifyCookieListeners();
   },
 };
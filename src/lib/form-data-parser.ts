@@ -0,0 +1,171 @@
+/**
+ * Type a field is coerced to. The `[]` variants always produce an array,
+ * even when the key occurs only once.
+ */
+export type FormDataFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | "file"
+  | "string[]"
+  | "number[]"
+  | "boolean[]"
+  | "date[]"
+  | "file[]";
+
+/**
+ * Field types keyed by path without array indices,
+ * e.g. `{ "items.qty": "number", active: "boolean" }`.
+ * Fields missing from the schema are kept as strings / Files.
+ */
+export type FormDataSchema = Record<string, FormDataFieldType>;
+
+type FormDataSource = FormData | HTMLFormElement | URLSearchParams;
+
+type Container = Record<string, unknown> | unknown[];
+
+const TRUE_VALUES = ["true", "on", "1", "yes"];
+
+const isIndex = (segment: string) => segment === "" || /^\d+$/.test(segment);
+
+/** Segments that would reach `Object.prototype` (prototype pollution) */
+const UNSAFE_SEGMENTS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Splits `a[0].b`, `a[0][b]`, `a.0.b` and `a[]` into path segments.
+ * An empty segment stands for `[]` (append).
+ */
+const parseKey = (key: string): string[] =>
+  Array.from(key.matchAll(/\[([^\]]*)\]|[^.[\]]+/g), (match) =>
+    match[1] !== undefined ? match[1] : match[0]
+  );
+
+/**
+ * Coerces a single entry to the schema type.
+ * Values that cannot be coerced become null.
+ */
+const coerce = (value: FormDataEntryValue, type?: FormDataFieldType) => {
+  const baseType = type?.replace("[]", "");
+
+  if (typeof value !== "string" || !baseType || baseType === "string") {
+    return value;
+  }
+
+  switch (baseType) {
+    case "number": {
+      const number = Number(value);
+      return value.trim() === "" || isNaN(number) ? null : number;
+    }
+    case "boolean":
+      return TRUE_VALUES.includes(value.toLowerCase());
+    case "date": {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    default:
+      return null;
+  }
+};
+
+/** Own properties only, so inherited members are never descended into */
+const readSlot = (container: Container, segment: string): unknown => {
+  if (Array.isArray(container)) return container[Number(segment)];
+
+  return Object.prototype.hasOwnProperty.call(container, segment)
+    ? container[segment]
+    : undefined;
+};
+
+const writeSlot = (container: Container, segment: string, value: unknown) => {
+  if (Array.isArray(container)) {
+    if (segment === "") container.push(value);
+    else container[Number(segment)] = value;
+  } else {
+    container[segment] = value;
+  }
+};
+
+/**
+ * Walks (and creates) the containers along `segments` and stores the value.
+ * Repeated keys are grouped into arrays.
+ */
+const assign = (
+  root: Record<string, unknown>,
+  segments: string[],
+  value: unknown,
+  isArrayField: boolean
+) => {
+  let container: Container = root;
+
+  segments.slice(0, -1).forEach((segment, i) => {
+    let next = segment === "" ? undefined : readSlot(container, segment);
+
+    if (typeof next !== "object" || next === null || next instanceof Blob) {
+      next = isIndex(segments[i + 1]) ? [] : {};
+      writeSlot(container, segment, next);
+    }
+
+    container = next as Container;
+  });
+
+  const leaf = segments[segments.length - 1];
+
+  if (Array.isArray(container) && isIndex(leaf)) {
+    writeSlot(container, leaf, value);
+    return;
+  }
+
+  const existing = readSlot(container, leaf);
+
+  if (existing === undefined) {
+    writeSlot(container, leaf, isArrayField ? [value] : value);
+  } else {
+    const list = Array.isArray(existing) ? existing : [existing];
+    writeSlot(container, leaf, [...list, value]);
+  }
+};
+
+const toEntries = (source: FormDataSource): [string, FormDataEntryValue][] => {
+  if (typeof HTMLFormElement !== "undefined" && source instanceof HTMLFormElement) {
+    return Array.from(new FormData(source).entries());
+  }
+
+  return Array.from((source as FormData | URLSearchParams).entries());
+};
+
+/**
+ * Rebuilds a nested object from FormData, a `<form>` or URLSearchParams.
+ * The inverse of `FormDataBuilder`: understands `a[0].b`, `a[0][b]`,
+ * `a.0.b` and `a[]` keys, and groups repeated keys into arrays.
+ * Keys containing `__proto__`, `constructor` or `prototype` are ignored.
+ *
+ * @param source - FormData, form element or URLSearchParams
+ * @param schema - Optional field types used to coerce string values
+ * @returns Nested object
+ *
+ * Example:
+ * parseFormData(formData, { "items.qty": "number" })
+ *    returns { items: [{ sku: "A1", qty: 2 }] } for `items[0].sku=A1&items[0].qty=2`
+ */
+export function parseFormData<T = Record<string, unknown>>(
+  source: FormDataSource,
+  schema: FormDataSchema = {}
+): T {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of toEntries(source)) {
+    const segments = parseKey(key);
+    if (!segments.length) continue;
+    if (segments.some((segment) => UNSAFE_SEGMENTS.includes(segment))) continue;
+
+    const path = segments.filter((segment) => !isIndex(segment)).join(".");
+    const type = Object.prototype.hasOwnProperty.call(schema, path)
+      ? schema[path]
+      : undefined;
+
+    assign(result, segments, coerce(value, type), !!type?.endsWith("[]"));
+  }
+
+  return result as T;
+}
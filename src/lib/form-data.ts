@@ -1,21 +1,115 @@
+import { uploadFormData, type UploadOptions, type UploadResponse } from "./upload";
+
 type FormDataValue =
   | string
   | number
   | boolean
   | File
+  | Blob
+  | FileList
+  | File[]
   | object
   | null
   | undefined;
 
+type FileInput = File | Blob | FileList | File[] | null | undefined;
+
+export type FormDataValidationCode =
+  | "FILE_TOO_LARGE"
+  | "TOTAL_TOO_LARGE"
+  | "MIME_NOT_ALLOWED";
+
+/**
+ * Thrown when a file breaks the builder's size or MIME type limits.
+ */
+export class FormDataValidationError extends Error {
+  readonly code: FormDataValidationCode;
+  readonly key: string;
+  readonly file: Blob;
+  /** The limit that was exceeded: bytes, or the allowed MIME types */
+  readonly limit: number | string[];
+
+  constructor(
+    code: FormDataValidationCode,
+    key: string,
+    file: Blob,
+    limit: number | string[]
+  ) {
+    const name = file instanceof File ? file.name : key;
+    const messages: Record<FormDataValidationCode, string> = {
+      FILE_TOO_LARGE: `"${name}" is larger than ${String(limit)} bytes`,
+      TOTAL_TOO_LARGE: `Files exceed the total limit of ${String(limit)} bytes`,
+      MIME_NOT_ALLOWED: `"${name}" has a disallowed type "${file.type}"`,
+    };
+
+    super(messages[code]);
+    this.name = "FormDataValidationError";
+    this.code = code;
+    this.key = key;
+    this.file = file;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Key convention used for nested values:
+ * - `mixed`    → `a[0].b`  (Spring, ASP.NET)
+ * - `brackets` → `a[0][b]` (Rails, PHP)
+ * - `dots`     → `a.0.b`
+ * - `repeat`   → `a.b`, arrays as repeated keys (`tags=x&tags=y`)
+ */
+export type FormDataKeyStyle = "mixed" | "brackets" | "dots" | "repeat";
+
 interface FormDataOptions {
   skipNull?: boolean;
   skipUndefined?: boolean;
   skipEmptyStrings?: boolean;
+  /** Key convention used by `appendDeep` (default: "mixed") */
+  keyStyle?: FormDataKeyStyle;
+  /** Maximum size of a single file in bytes */
+  maxFileSize?: number;
+  /** Maximum size of all files together in bytes */
+  maxTotalSize?: number;
+  /** Allowed MIME types; wildcards like "image/*" are supported */
+  accept?: string[];
 }
 
+const isFileList = (value: unknown): value is FileList =>
+  typeof FileList !== "undefined" && value instanceof FileList;
+
+const isFileArray = (value: unknown): value is Blob[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((item) => item instanceof Blob);
+
+const matchesMime = (type: string, pattern: string): boolean => {
+  if (pattern === "*/*" || pattern === type) return true;
+  if (!pattern.endsWith("/*")) return false;
+  return type.startsWith(pattern.slice(0, -1));
+};
+
+/**
+ * Builds the key of an array item for the given convention.
+ */
+const indexKey = (key: string, index: number, style: FormDataKeyStyle) => {
+  if (style === "repeat") return key;
+  if (style === "dots") return `${key}.${index}`;
+  return `${key}[${index}]`;
+};
+
+/**
+ * Builds the key of an object property for the given convention.
+ */
+const propertyKey = (key: string, property: string, style: FormDataKeyStyle) => {
+  if (!key) return property;
+  if (style === "brackets") return `${key}[${property}]`;
+  return `${key}.${property}`;
+};
+
 export class FormDataBuilder {
   private formData: FormData;
   private options: FormDataOptions;
+  private totalFileSize = 0;
 
   constructor(options?: FormDataOptions) {
     this.formData = new FormData();
@@ -23,6 +117,7 @@ export class FormDataBuilder {
       skipNull: false,
       skipUndefined: true,
       skipEmptyStrings: false,
+      keyStyle: "mixed",
       ...options,
     };
   }
@@ -35,8 +130,10 @@ export class FormDataBuilder {
       return this;
     }
 
-    if (value instanceof File) {
-      this.formData.append(key, value);
+    if (value instanceof Blob) {
+      this.appendBlob(key, value);
+    } else if (isFileList(value) || isFileArray(value)) {
+      Array.from(value).forEach((file) => this.appendBlob(key, file));
     } else if (typeof value === "object" && value !== null) {
       this.formData.append(key, JSON.stringify(value));
     } else if (typeof value === "boolean" || typeof value === "number") {
@@ -76,11 +173,53 @@ export class FormDataBuilder {
   }
 
   /**
-   * Add a file field
+   * Recursively add nested objects, arrays, Dates, Blobs and FileLists,
+   * naming keys with the configured `keyStyle`.
+   * Skip options apply at every level. Pass an empty key to spread the
+   * top-level properties of an object.
    */
-  appendFile(key: string, file: File | undefined): this {
-    if (file) {
-      this.formData.append(key, file);
+  appendDeep(
+    key: string,
+    value: unknown,
+    keyStyle: FormDataKeyStyle = this.options.keyStyle ?? "mixed"
+  ): this {
+    if (this.shouldSkip(value)) {
+      return this;
+    }
+
+    if (value instanceof Blob) {
+      this.appendBlob(key, value);
+    } else if (value instanceof Date) {
+      this.formData.append(key, value.toISOString());
+    } else if (Array.isArray(value) || isFileList(value)) {
+      Array.from(value as ArrayLike<unknown>).forEach((item, index) => {
+        this.appendDeep(indexKey(key, index, keyStyle), item, keyStyle);
+      });
+    } else if (typeof value === "object" && value !== null) {
+      Object.entries(value).forEach(([property, nested]) => {
+        this.appendDeep(propertyKey(key, property, keyStyle), nested, keyStyle);
+      });
+    } else {
+      this.append(key, value as FormDataValue);
+    }
+
+    return this;
+  }
+
+  /**
+   * Add a file field: a File, a Blob (with an optional filename),
+   * a FileList or an array of Files, all under the same key.
+   * Throws `FormDataValidationError` when a file breaks the limits.
+   */
+  appendFile(key: string, file: FileInput, filename?: string): this {
+    if (!file) {
+      return this;
+    }
+
+    if (file instanceof Blob) {
+      this.appendBlob(key, file, filename);
+    } else {
+      Array.from(file).forEach((item) => this.appendBlob(key, item));
     }
 
     return this;
@@ -108,10 +247,50 @@ export class FormDataBuilder {
     return this.formData;
   }
 
+  /**
+   * Send the built FormData over XMLHttpRequest, reporting upload progress
+   */
+  upload<T = unknown>(
+    url: string,
+    options?: UploadOptions
+  ): Promise<UploadResponse<T>> {
+    return uploadFormData<T>(url, this.formData, options);
+  }
+
+  /**
+   * Validate a file against the size and MIME limits, then append it
+   */
+  private appendBlob(key: string, blob: Blob, filename?: string): void {
+    const { maxFileSize, maxTotalSize, accept } = this.options;
+
+    if (accept?.length && !accept.some((type) => matchesMime(blob.type, type))) {
+      throw new FormDataValidationError("MIME_NOT_ALLOWED", key, blob, accept);
+    }
+
+    if (maxFileSize !== undefined && blob.size > maxFileSize) {
+      throw new FormDataValidationError("FILE_TOO_LARGE", key, blob, maxFileSize);
+    }
+
+    if (
+      maxTotalSize !== undefined &&
+      this.totalFileSize + blob.size > maxTotalSize
+    ) {
+      throw new FormDataValidationError("TOTAL_TOO_LARGE", key, blob, maxTotalSize);
+    }
+
+    this.totalFileSize += blob.size;
+
+    if (filename !== undefined) {
+      this.formData.append(key, new File([blob], filename, { type: blob.type }));
+    } else {
+      this.formData.append(key, blob);
+    }
+  }
+
   /**
    * Check if a value should be skipped based on options
    */
-  private shouldSkip(value: FormDataValue): boolean {
+  private shouldSkip(value: unknown): boolean {
     if (value === undefined && this.options.skipUndefined) {
       return true;
     } else if (value === null && this.options.skipNull) {
@@ -1,5 +1,13 @@
 export * from './cn';
 export * from './cookie';
 export * from './storage';
+export * from './storage-backends';
+export * from './async-storage';
 export * from './form-data';
+export * from './form-data-parser';
+export * from './upload';
 export * from './lazy-load';
+export * from './api-client';
+export * from './query-cache';
+export * from './outbox';
+export * from './auth-session';
@@ -0,0 +1,363 @@
+import { ApiError, createApiClient, type ApiClient } from "./api-client";
+import { local, type StorageInstance } from "./storage";
+
+/**
+ * Write request to deliver. The body must be JSON-serializable because it
+ * is persisted; FormData and files cannot be queued.
+ */
+export interface OutboxRequest {
+  method: "POST" | "PUT" | "PATCH" | "DELETE";
+  url: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /**
+   * Requests with the same key replace each other (last write wins),
+   * e.g. `profile:42` for repeated saves of one form.
+   */
+  dedupeKey?: string;
+}
+
+export interface OutboxItem extends OutboxRequest {
+  id: string;
+  createdAt: number;
+  /** Failed delivery attempts so far */
+  attempts: number;
+  lastError?: string;
+}
+
+export type OutboxConflictResolution = "retry" | "drop";
+
+export interface OutboxOptions {
+  /** Storage the queue is persisted to (default: `local`) */
+  storage?: StorageInstance;
+  /** Storage key of the queue (default: "outbox") */
+  key?: string;
+  /** Client used to deliver requests (default: `createApiClient({ baseUrl: "" })`) */
+  client?: ApiClient;
+  /** Attempts before an item is given up on (default: 5) */
+  maxAttempts?: number;
+  /**
+   * Called for 409 / 412 responses, i.e. the server state changed while
+   * offline. Return "retry" to keep the item, up to `maxAttempts`;
+   * it is dropped otherwise.
+   */
+  onConflict?: (
+    item: OutboxItem,
+    error: ApiError
+  ) => OutboxConflictResolution | void;
+  /** Called when an item is dropped: rejected by the server or out of attempts */
+  onFailure?: (item: OutboxItem, error: unknown) => void;
+  /** Called after an item was delivered */
+  onSuccess?: (item: OutboxItem, data: unknown) => void;
+}
+
+export type OutboxSubmitResult<T> =
+  | { queued: false; data: T }
+  | { queued: true; item: OutboxItem };
+
+export interface OutboxSnapshot {
+  items: OutboxItem[];
+  isSyncing: boolean;
+}
+
+/**
+ * How long a replaying tab holds the queue without renewing its lease
+ * (renewed before every delivery); other tabs take over after that.
+ */
+const LEASE_TIME = 30_000;
+
+const CONFLICT_STATUSES = [409, 412];
+const RETRY_STATUSES = [408, 425, 429];
+
+const createId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const isOffline = () =>
+  typeof navigator !== "undefined" && navigator.onLine === false;
+
+/** Still offline or unreachable: stop and wait for the next `online` event */
+const isConnectionError = (error: unknown) =>
+  error instanceof ApiError &&
+  (error.kind === "network" || error.kind === "timeout");
+
+/**
+ * Persistent queue of write requests made while offline. Items are
+ * replayed in order when the browser comes back online (and whenever
+ * `replay` is called); delivery stops at the first connection error so
+ * the order is kept. Tabs sharing the storage replay one at a time: a
+ * lease stored next to the queue (`<key>:lease`) names the tab that sends.
+ *
+ * @param options - Storage, client, attempt limit and callbacks
+ */
+export const createOutbox = (options: OutboxOptions = {}) => {
+  const {
+    storage = local,
+    key = "outbox",
+    client = createApiClient({ baseUrl: "" }),
+    maxAttempts = 5,
+    onConflict,
+    onFailure,
+    onSuccess,
+  } = options;
+
+  const listeners = new Set<() => void>();
+  const leaseKey = `${key}:lease`;
+  const owner = createId();
+
+  let replaying: Promise<void> | null = null;
+  let rerun = false;
+  let started = false;
+  let snapshot: OutboxSnapshot & { raw: string | null } = {
+    raw: null,
+    items: [],
+    isSyncing: false,
+  };
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const read = (): OutboxItem[] => storage.getOr<OutboxItem[]>(key, []);
+
+  const write = (items: OutboxItem[]) => {
+    if (items.length) storage.set(key, items);
+    else storage.remove(key);
+  };
+
+  const updateItem = (id: string, patch: Partial<OutboxItem>) => {
+    write(read().map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    write(read().filter((item) => item.id !== id));
+  };
+
+  const deliver = (item: OutboxItem) =>
+    client.request(item.method, item.url, {
+      body: item.body as object,
+      headers: item.headers,
+      retry: false,
+    });
+
+  /**
+   * Handles a failed delivery; returns true when replay should continue.
+   */
+  const handleError = (item: OutboxItem, error: unknown): boolean => {
+    if (isConnectionError(error)) return false;
+
+    const isConflict =
+      error instanceof ApiError &&
+      error.kind === "http" &&
+      CONFLICT_STATUSES.includes(error.status);
+
+    if (isConflict && onConflict?.(item, error) !== "retry") {
+      removeItem(item.id);
+      return true;
+    }
+
+    const isRejected =
+      !isConflict &&
+      error instanceof ApiError &&
+      error.kind === "http" &&
+      error.status < 500 &&
+      !RETRY_STATUSES.includes(error.status);
+
+    if (isRejected || item.attempts + 1 >= maxAttempts) {
+      removeItem(item.id);
+      onFailure?.(item, error);
+      return true;
+    }
+
+    updateItem(item.id, {
+      attempts: item.attempts + 1,
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+
+    return false;
+  };
+
+  /**
+   * Takes or renews the replay lease; false while another tab holds it.
+   */
+  const acquireLease = (): boolean => {
+    const holder = storage.get<string>(leaseKey);
+    if (holder && holder !== owner) return false;
+
+    storage.set(leaseKey, owner, { maxAge: LEASE_TIME });
+    return true;
+  };
+
+  const releaseLease = () => {
+    if (storage.get<string>(leaseKey) === owner) storage.remove(leaseKey);
+  };
+
+  const run = async () => {
+    try {
+      for (;;) {
+        const [item] = read();
+        if (!item || isOffline() || !acquireLease()) return;
+
+        try {
+          const data = await deliver(item);
+          removeItem(item.id);
+          onSuccess?.(item, data);
+        } catch (error) {
+          if (!handleError(item, error)) return;
+        }
+      }
+    } finally {
+      releaseLease();
+    }
+  };
+
+  const instance = {
+    /** Queued items, oldest first */
+    items: (): OutboxItem[] => read(),
+
+    /**
+     * Adds a request to the queue. An item with the same `dedupeKey`
+     * is replaced in place, under a new id: if the old one is being sent
+     * right now, its delivery must not remove the replacement.
+     */
+    enqueue: (request: OutboxRequest): OutboxItem => {
+      instance.start();
+
+      const items = read();
+      const existing = request.dedupeKey
+        ? items.find((item) => item.dedupeKey === request.dedupeKey)
+        : undefined;
+
+      const item: OutboxItem = {
+        ...request,
+        id: createId(),
+        createdAt: existing?.createdAt ?? Date.now(),
+        attempts: 0,
+      };
+
+      write(
+        existing
+          ? items.map((queued) => (queued.id === existing.id ? item : queued))
+          : [...items, item]
+      );
+
+      return item;
+    },
+
+    /**
+     * Sends a request right away when online and nothing is queued before
+     * it; otherwise, or when the connection fails, queues it.
+     * Server errors are thrown as usual.
+     */
+    submit: async <T = unknown>(
+      request: OutboxRequest
+    ): Promise<OutboxSubmitResult<T>> => {
+      if (isOffline() || read().length) {
+        const item = instance.enqueue(request);
+        instance.replay();
+        return { queued: true, item };
+      }
+
+      try {
+        const data = (await client.request<T>(request.method, request.url, {
+          body: request.body as object,
+          headers: request.headers,
+        })) as T;
+
+        return { queued: false, data };
+      } catch (error) {
+        if (!isConnectionError(error)) throw error;
+        return { queued: true, item: instance.enqueue(request) };
+      }
+    },
+
+    /**
+     * Delivers queued items in order. Concurrent calls share one run.
+     */
+    replay: (): Promise<void> => {
+      /** The current run may already be past the point of seeing new items */
+      if (replaying) rerun = true;
+
+      if (!replaying) {
+        replaying = (async () => {
+          do {
+            rerun = false;
+            await run();
+          } while (rerun);
+        })()
+          .catch(() => undefined)
+          .finally(() => {
+            replaying = null;
+            notify();
+          });
+
+        notify();
+      }
+
+      return replaying;
+    },
+
+    remove: (id: string): void => {
+      removeItem(id);
+    },
+
+    clear: (): void => {
+      storage.remove(key);
+    },
+
+    /**
+     * Starts replaying on `online` events (and now, when items are queued).
+     * Called automatically by `enqueue`, `submit` and `subscribe`.
+     */
+    start: (): void => {
+      if (started || typeof window === "undefined") return;
+      started = true;
+
+      window.addEventListener("online", instance.replay);
+      if (read().length) instance.replay();
+    },
+
+    /** Stops listening for `online` events */
+    stop: (): void => {
+      if (!started) return;
+      started = false;
+
+      window.removeEventListener("online", instance.replay);
+    },
+
+    /**
+     * Items and syncing flag; the same object is returned until either changes.
+     */
+    getSnapshot: (): OutboxSnapshot => {
+      const raw = storage.raw(key);
+      const isSyncing = replaying !== null;
+
+      if (raw !== snapshot.raw || isSyncing !== snapshot.isSyncing) {
+        snapshot = { raw, items: read(), isSyncing };
+      }
+
+      return snapshot;
+    },
+
+    /**
+     * Subscribes to queue changes (also from other tabs) and syncing state.
+     * @returns Unsubscribe function
+     */
+    subscribe: (listener: () => void): (() => void) => {
+      instance.start();
+      listeners.add(listener);
+      const unwatch = storage.subscribe(key, listener);
+
+      return () => {
+        listeners.delete(listener);
+        unwatch();
+      };
+    },
+  };
+
+  return instance;
+};
+
+export type Outbox = ReturnType<typeof createOutbox>;
+
+/** Outbox used by `useOutbox` unless another one is passed */
+export const outbox = createOutbox();
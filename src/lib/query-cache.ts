@@ -0,0 +1,262 @@
+export type QueryStatus = "idle" | "loading" | "success" | "error";
+
+/**
+ * Cached state of a query key. Objects are replaced on every change,
+ * so they can be used directly as `useSyncExternalStore` snapshots.
+ */
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: unknown;
+  /** "loading" only while there is no data yet; refetches keep "success" */
+  status: QueryStatus;
+  /** A request is in flight, also while stale data is shown */
+  isFetching: boolean;
+  /** When data was last stored, 0 if never */
+  updatedAt: number;
+}
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryFetchOptions {
+  /** How long data counts as fresh in milliseconds (default: 0) */
+  staleTime?: number;
+  /** Fetch even when the data is fresh */
+  force?: boolean;
+}
+
+type QueryUpdater<T> = T | ((prev: T | undefined) => T);
+
+export interface QueryCacheOptions {
+  /**
+   * How long an entry without subscribers is kept, in milliseconds
+   * (default: 5 minutes); Infinity keeps entries forever.
+   */
+  gcTime?: number;
+}
+
+interface QueryEntry {
+  state: QueryState;
+  listeners: Set<() => void>;
+  /** Last fetcher used for the key, reused by `invalidate` */
+  fetcher?: QueryFetcher<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  invalidated: boolean;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+const EMPTY_STATE: QueryState = Object.freeze({
+  data: undefined,
+  error: null,
+  status: "idle",
+  isFetching: false,
+  updatedAt: 0,
+});
+
+/**
+ * In-memory cache of async results keyed by string. Concurrent fetches of
+ * a key share one request, which is aborted once the key loses its last
+ * subscriber; the entry itself is dropped `gcTime` later.
+ *
+ * @param options - Garbage-collection time
+ */
+export const createQueryCache = ({ gcTime = 5 * 60_000 }: QueryCacheOptions = {}) => {
+  const entries = new Map<string, QueryEntry>();
+
+  /** Removes the entry `gcTime` from now unless it is subscribed again */
+  const scheduleGc = (key: string, entry: QueryEntry) => {
+    clearTimeout(entry.gcTimer);
+    if (gcTime === Infinity) return;
+
+    entry.gcTimer = setTimeout(() => {
+      if (!entry.listeners.size && entries.get(key) === entry) entries.delete(key);
+    }, gcTime);
+  };
+
+  const getEntry = (key: string): QueryEntry => {
+    let entry = entries.get(key);
+
+    if (!entry) {
+      entry = { state: EMPTY_STATE, listeners: new Set(), invalidated: false };
+      entries.set(key, entry);
+      /** Prefetched or `setData` entries nobody subscribes to are collected too */
+      scheduleGc(key, entry);
+    }
+
+    return entry;
+  };
+
+  const update = (entry: QueryEntry, patch: Partial<QueryState>) => {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  };
+
+  const isFresh = (entry: QueryEntry, staleTime = 0) =>
+    !entry.invalidated &&
+    entry.state.status === "success" &&
+    Date.now() - entry.state.updatedAt < staleTime;
+
+  const matches = (key: string, match: string | ((key: string) => boolean)) =>
+    typeof match === "function"
+      ? match(key)
+      : key === match || key.startsWith(`${match}?`);
+
+  const cache = {
+    /**
+     * Current state of a key (a shared empty state for unknown keys).
+     */
+    getState: <T>(key: string): QueryState<T> =>
+      (entries.get(key)?.state ?? EMPTY_STATE) as QueryState<T>,
+
+    getData: <T>(key: string): T | undefined =>
+      entries.get(key)?.state.data as T | undefined,
+
+    /**
+     * Fetches a key unless its data is still fresh. While a request is in
+     * flight, every caller receives the same promise.
+     * @param key - Cache key
+     * @param fetcher - Loads the data; must honor the abort signal
+     * @param options - Stale time and force flag
+     */
+    fetch: <T>(
+      key: string,
+      fetcher: QueryFetcher<T>,
+      options: QueryFetchOptions = {}
+    ): Promise<T> => {
+      const entry = getEntry(key);
+      entry.fetcher = fetcher as QueryFetcher<unknown>;
+
+      if (entry.promise) return entry.promise as Promise<T>;
+
+      if (!options.force && isFresh(entry, options.staleTime)) {
+        return Promise.resolve(entry.state.data as T);
+      }
+
+      const controller = new AbortController();
+
+      /** Ignores results of requests that were cancelled or replaced */
+      const settle = (patch: Partial<QueryState>) => {
+        if (entry.controller !== controller) return;
+        entry.promise = undefined;
+        entry.controller = undefined;
+        update(entry, { ...patch, isFetching: false });
+      };
+
+      const promise = fetcher(controller.signal).then(
+        (data) => {
+          entry.invalidated = false;
+          settle({ data, error: null, status: "success", updatedAt: Date.now() });
+          return data;
+        },
+        (error: unknown) => {
+          settle({ error, status: "error" });
+          throw error;
+        }
+      );
+
+      entry.promise = promise;
+      entry.controller = controller;
+
+      update(entry, {
+        isFetching: true,
+        status: entry.state.data === undefined ? "loading" : entry.state.status,
+      });
+
+      return promise;
+    },
+
+    /**
+     * Aborts the in-flight request of a key, keeping the cached data.
+     */
+    cancel: (key: string): void => {
+      const entry = entries.get(key);
+      if (!entry?.controller) return;
+
+      entry.controller.abort();
+      entry.promise = undefined;
+      entry.controller = undefined;
+
+      update(entry, {
+        isFetching: false,
+        status: entry.state.data === undefined ? "idle" : "success",
+      });
+    },
+
+    /**
+     * Puts back a state captured with `getState`, e.g. to roll back an
+     * optimistic update.
+     */
+    restore: (key: string, state: QueryState<unknown>): void => {
+      update(getEntry(key), { ...state, isFetching: false });
+    },
+
+    /**
+     * Stores data for a key, e.g. after a mutation or for optimistic updates.
+     */
+    setData: <T>(key: string, updater: QueryUpdater<T>): void => {
+      const entry = getEntry(key);
+      const data =
+        updater instanceof Function
+          ? updater(entry.state.data as T | undefined)
+          : updater;
+
+      update(entry, { data, error: null, status: "success", updatedAt: Date.now() });
+    },
+
+    /**
+     * Marks keys as stale and refetches the ones that are being watched.
+     * A string matches the key itself and the key with any query string.
+     */
+    invalidate: (match: string | ((key: string) => boolean)): void => {
+      entries.forEach((entry, key) => {
+        if (!matches(key, match)) return;
+
+        entry.invalidated = true;
+
+        if (entry.listeners.size && entry.fetcher) {
+          cache.fetch(key, entry.fetcher, { force: true }).catch(() => {});
+        }
+      });
+    },
+
+    /**
+     * Subscribes to changes of a key. The in-flight request is aborted when
+     * the last subscriber leaves (unmount or key change).
+     * @returns Unsubscribe function
+     */
+    subscribe: (key: string, listener: () => void): (() => void) => {
+      const entry = getEntry(key);
+      entry.listeners.add(listener);
+      clearTimeout(entry.gcTimer);
+
+      return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size) return;
+
+        cache.cancel(key);
+        scheduleGc(key, entry);
+      };
+    },
+
+    remove: (key: string): void => {
+      cache.cancel(key);
+      clearTimeout(entries.get(key)?.gcTimer);
+      entries.delete(key);
+    },
+
+    clear: (): void => {
+      entries.forEach((entry, key) => {
+        cache.cancel(key);
+        clearTimeout(entry.gcTimer);
+      });
+      entries.clear();
+    },
+  };
+
+  return cache;
+};
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
+
+/** Cache shared by `useQuery` and `useMutation` unless another one is passed */
+export const queryCache = createQueryCache();
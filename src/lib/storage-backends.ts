@@ -0,0 +1,133 @@
+import { CookieManager, type CookieOptions } from "./cookie";
+
+/**
+ * Minimal key-value interface `createStorage` persists to.
+ * Values are always the serialized strings produced by the wrapper.
+ */
+export interface StorageBackend {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+  keys: () => string[];
+  clear: () => void;
+  /**
+   * Optional hook for changes made outside this page (e.g. other tabs).
+   * The listener receives the changed key, or null when everything changed.
+   */
+  watch?: (listener: (key: string | null) => void) => () => void;
+}
+
+/** Adapters are cached so every wrapper over the same area shares one backend */
+const webBackends = new WeakMap<Storage, StorageBackend>();
+
+/**
+ * Adapts a DOM `Storage` (localStorage / sessionStorage).
+ * Changes from other tabs are reported through the `storage` event.
+ */
+export const createWebStorageBackend = (storage: Storage): StorageBackend => {
+  const cached = webBackends.get(storage);
+  if (cached) return cached;
+
+  const backend: StorageBackend = {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+    clear: () => storage.clear(),
+    keys: () => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    },
+    watch: (listener) => {
+      if (typeof window === "undefined") return () => {};
+
+      const onStorage = (event: StorageEvent) => {
+        if (event.storageArea === storage) listener(event.key);
+      };
+
+      window.addEventListener("storage", onStorage);
+      return () => window.removeEventListener("storage", onStorage);
+    },
+  };
+
+  webBackends.set(storage, backend);
+
+  return backend;
+};
+
+/**
+ * In-memory backend, for SSR, tests, or as a fallback when storage is disabled.
+ * Data lives as long as the backend instance.
+ */
+export const createMemoryBackend = (
+  initial: Record<string, string> = {}
+): StorageBackend => {
+  const items = new Map(Object.entries(initial));
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    keys: () => [...items.keys()],
+    clear: () => items.clear(),
+  };
+};
+
+/**
+ * Cookie-backed backend built on `CookieManager`.
+ * Keep payloads small: browsers cap cookies at roughly 4KB each.
+ */
+export const createCookieBackend = (
+  options?: CookieOptions
+): StorageBackend => {
+  const keys = (): string[] => Object.keys(CookieManager.getAll());
+
+  return {
+    getItem: (key) => CookieManager.get(key),
+    setItem: (key, value) => CookieManager.set(key, value, options),
+    removeItem: (key) => CookieManager.remove(key, options),
+    keys,
+    clear: () => keys().forEach((key) => CookieManager.remove(key, options)),
+  };
+};
+
+/**
+ * Backend that stores nothing: reads return null and writes are dropped.
+ */
+export const createNoopBackend = (): StorageBackend => ({
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+  keys: () => [],
+  clear: () => {},
+});
+
+/**
+ * Resolves `localStorage` / `sessionStorage` and checks that it accepts writes.
+ * Falls back to memory when it throws (Safari private mode, disabled storage)
+ * and to a no-op backend where there is no `window` (SSR), so server renders
+ * never share state between requests.
+ */
+export const resolveWebStorage = (
+  name: "localStorage" | "sessionStorage"
+): StorageBackend => {
+  if (typeof window === "undefined") return createNoopBackend();
+
+  try {
+    const storage = window[name];
+    const probe = "__storage_probe__";
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return createWebStorageBackend(storage);
+  } catch (err) {
+    console.warn(`[Storage] ${name} is not available, using memory:`, err);
+    return createMemoryBackend();
+  }
+};
@@ -1,56 +1,520 @@
-export const createStorage = (storage: Storage) => ({
-  /** Save any value (auto JSON.stringified) */
-  set: <T>(key: string, value: T): void => {
+import {
+  createNoopBackend,
+  createWebStorageBackend,
+  resolveWebStorage,
+  type StorageBackend,
+} from "./storage-backends";
+
+/**
+ * Metadata kept next to a value when it is persisted inside an envelope.
+ */
+interface StorageMeta {
+  /** Schema version the value was written with */
+  version?: number;
+  /** Epoch milliseconds after which the value is considered gone */
+  expiresAt?: number;
+}
+
+/**
+ * Options accepted by `set` to make an entry expire.
+ */
+export interface StorageSetOptions {
+  /** Absolute expiry: a Date, a date string or epoch milliseconds */
+  expires?: Date | string | number;
+  /** Relative expiry in milliseconds from now (wins over `expires`) */
+  maxAge?: number;
+}
+
+/**
+ * Shape of a persisted entry that carries metadata.
+ * Plain `set` calls keep writing the bare JSON value, unless that value
+ * looks like an envelope itself: it is then wrapped so reads return it as is.
+ */
+interface StorageEnvelope {
+  __storage: StorageMeta;
+  value: unknown;
+}
+
+/**
+ * Upgrades a payload from the previous schema version to the next one.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type StorageMigration = (value: any) => unknown;
+
+/**
+ * Describes a persisted key: its current shape, version and upgrade path.
+ */
+export interface StorageSchema<T> {
+  /** Current schema version, written together with every value */
+  version: number;
+  /** Runtime check run on every read, after migrations */
+  validate: (value: unknown) => value is T;
+  /**
+   * Migrations keyed by the version they upgrade to.
+   * `{ 2: (v1) => v2 }` upgrades a version 1 payload to version 2.
+   * Values written before the key had a schema are treated as version 0.
+   */
+  migrations?: Record<number, StorageMigration>;
+  /** Returned by `getOr()` when the payload is missing or cannot be upgraded */
+  defaultValue: T;
+}
+
+/**
+ * Strongly typed accessor for a single registered key.
+ */
+export interface StorageKey<T> {
+  key: string;
+  get: () => T | null;
+  getOr: (defaultValue?: T) => T;
+  set: (value: T, options?: StorageSetOptions) => void;
+  remove: () => void;
+  has: () => boolean;
+}
+
+const isEnvelope = (value: unknown): value is StorageEnvelope =>
+  typeof value === "object" &&
+  value !== null &&
+  "__storage" in value &&
+  "value" in value &&
+  typeof (value as StorageEnvelope).__storage === "object";
+
+/**
+ * Reads and parses a raw entry, unwrapping the envelope if there is one.
+ * Returns null for missing keys; throws on malformed JSON.
+ */
+const readEntry = (
+  storage: StorageBackend,
+  key: string
+): { value: unknown; meta: StorageMeta } | null => {
+  const item = storage.getItem(key);
+  if (item === null) return null;
+
+  const parsed: unknown = JSON.parse(item);
+
+  if (isEnvelope(parsed)) {
+    return { value: parsed.value, meta: parsed.__storage };
+  }
+
+  return { value: parsed, meta: {} };
+};
+
+/**
+ * Resolves `set` options to an absolute expiry timestamp.
+ */
+const toExpiresAt = (options?: StorageSetOptions): number | undefined => {
+  if (!options) return undefined;
+
+  if (options.maxAge !== undefined) {
+    return Date.now() + options.maxAge;
+  }
+
+  if (options.expires !== undefined) {
+    const time = new Date(options.expires).getTime();
+    return isNaN(time) ? undefined : time;
+  }
+
+  return undefined;
+};
+
+const isExpired = (meta: StorageMeta): boolean =>
+  meta.expiresAt !== undefined && meta.expiresAt <= Date.now();
+
+/**
+ * Builds the metadata for an entry, or undefined when the bare value suffices.
+ */
+const toMeta = (
+  version: number | undefined,
+  options?: StorageSetOptions
+): StorageMeta | undefined => {
+  const expiresAt = toExpiresAt(options);
+  if (version === undefined && expiresAt === undefined) return undefined;
+
+  return {
+    ...(version !== undefined && { version }),
+    ...(expiresAt !== undefined && { expiresAt }),
+  };
+};
+
+type StorageListener = () => void;
+
+/** Same-tab subscribers, per backend and raw key */
+const listeners = new WeakMap<StorageBackend, Map<string, Set<StorageListener>>>();
+
+/**
+ * Notifies subscribers of a raw key, or of every key when none is given.
+ */
+const notify = (storage: StorageBackend, key?: string): void => {
+  const byKey = listeners.get(storage);
+  if (!byKey) return;
+
+  const targets = key === undefined ? [...byKey.values()] : [byKey.get(key)];
+  targets.forEach((set) => set?.forEach((listener) => listener()));
+};
+
+const listen = (
+  storage: StorageBackend,
+  key: string,
+  listener: StorageListener
+): (() => void) => {
+  const byKey = listeners.get(storage) ?? new Map<string, Set<StorageListener>>();
+  listeners.set(storage, byKey);
+
+  const set = byKey.get(key) ?? new Set<StorageListener>();
+  byKey.set(key, set);
+  set.add(listener);
+
+  return () => {
+    set.delete(listener);
+    if (!set.size) byKey.delete(key);
+  };
+};
+
+const writeEntry = (
+  storage: StorageBackend,
+  key: string,
+  value: unknown,
+  meta?: StorageMeta
+): void => {
+  const payload: unknown =
+    meta || isEnvelope(value) ? { __storage: meta ?? {}, value } : value;
+
+  try {
+    storage.setItem(key, JSON.stringify(payload));
+  } catch (err) {
+    console.error(`[Storage] Failed to set "${key}":`, err);
+    return;
+  }
+
+  notify(storage, key);
+};
+
+/**
+ * Runs the migration chain from `fromVersion` up to the schema version.
+ * Returns undefined when a step is missing or throws.
+ */
+const migrate = <T>(
+  schema: StorageSchema<T>,
+  value: unknown,
+  fromVersion: number
+): { value: unknown } | undefined => {
+  let current = value;
+
+  for (let version = fromVersion + 1; version <= schema.version; version++) {
+    const step = schema.migrations?.[version];
+    if (!step) return undefined;
+
     try {
-      storage.setItem(key, JSON.stringify(value));
+      current = step(current);
     } catch (err) {
-      console.error(`[Storage] Failed to set "${key}":`, err);
+      console.warn(`[Storage] Migration to v${version} failed:`, err);
+      return undefined;
+    }
+  }
+
+  return { value: current };
+};
+
+/**
+ * Options for a storage instance.
+ */
+export interface CreateStorageOptions {
+  /** Scopes every key under `${namespace}:` */
+  namespace?: string;
+  /** Raw key prefix, used verbatim (ignored when `namespace` is set) */
+  prefix?: string;
+}
+
+/**
+ * A storage area or backend, or a function that returns it on first use.
+ * The lazy form keeps module evaluation safe where `window` does not exist.
+ */
+export type StorageSource =
+  | Storage
+  | StorageBackend
+  | (() => Storage | StorageBackend | null | undefined);
+
+const isBackend = (source: Storage | StorageBackend): source is StorageBackend =>
+  typeof (source as StorageBackend).keys === "function";
+
+const toBackend = (source: Storage | StorageBackend): StorageBackend =>
+  isBackend(source) ? source : createWebStorageBackend(source);
+
+export const createStorage = (
+  source: StorageSource,
+  options: CreateStorageOptions = {}
+) => {
+  let resolved: StorageBackend | undefined;
+
+  /** Resolves the backend once; falls back to a no-op backend if it throws */
+  const getStorage = (): StorageBackend => {
+    if (resolved) return resolved;
+
+    if (typeof source !== "function") {
+      resolved = toBackend(source);
+      return resolved;
     }
-  },
 
-  /** Get and parse value, with optional default */
-  get: <T>(key: string): T | null => {
     try {
-      const item = storage.getItem(key);
-      if (item === null) return null;
-      return JSON.parse(item) as T;
+      const result = source();
+      resolved = result ? toBackend(result) : createNoopBackend();
     } catch (err) {
-      console.warn(`[Storage] Failed to parse "${key}":`, err);
+      console.warn("[Storage] Storage is not available:", err);
+      resolved = createNoopBackend();
+    }
+
+    return resolved;
+  };
+
+  const prefix = options.namespace
+    ? `${options.namespace}:`
+    : (options.prefix ?? "");
+
+  /** Maps a public key to the key actually stored */
+  const scoped = (key: string): string => `${prefix}${key}`;
+
+  /** Public keys that belong to this instance */
+  const ownKeys = (): string[] =>
+    getStorage()
+      .keys()
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length));
+
+  /** Removes a public key and notifies its subscribers */
+  const removeKey = (key: string): void => {
+    getStorage().removeItem(scoped(key));
+    notify(getStorage(), scoped(key));
+  };
+
+  /**
+   * Reads an entry and lazily removes it when it has expired.
+   */
+  const readLive = (key: string): ReturnType<typeof readEntry> => {
+    const entry = readEntry(getStorage(), scoped(key));
+
+    if (entry && isExpired(entry.meta)) {
+      removeKey(key);
       return null;
     }
-  },
 
-  /** Get with fallback default value */
-  getOr: <T>(key: string, defaultValue: T): T => {
-    const value = storage.getItem(key);
-    if (value === null) return defaultValue;
+    return entry;
+  };
+
+  /**
+   * Reads only the metadata of an entry, ignoring unparsable values.
+   */
+  const readMeta = (key: string): StorageMeta | null => {
     try {
-      return JSON.parse(value) as T;
+      return readEntry(getStorage(), scoped(key))?.meta ?? null;
     } catch {
-      return defaultValue;
+      return null;
+    }
+  };
+
+  /**
+   * Reads a registered key, upgrading old payloads in place.
+   * Payloads that cannot be upgraded or fail validation are dropped.
+   */
+  const readSchema = <T>(key: string, schema: StorageSchema<T>): T | null => {
+    let entry: ReturnType<typeof readEntry>;
+
+    try {
+      entry = readLive(key);
+    } catch (err) {
+      console.warn(`[Storage] Failed to parse "${key}":`, err);
+      removeKey(key);
+      return null;
+    }
+
+    if (!entry) return null;
+
+    const storedVersion = entry.meta.version ?? 0;
+
+    /** Written by a newer client: leave it alone, we cannot read it */
+    if (storedVersion > schema.version) return null;
+
+    const migrated =
+      storedVersion === schema.version
+        ? { value: entry.value }
+        : migrate(schema, entry.value, storedVersion);
+
+    if (!migrated || !schema.validate(migrated.value)) {
+      console.warn(`[Storage] Dropping incompatible value for "${key}"`);
+      removeKey(key);
+      return null;
+    }
+
+    if (storedVersion !== schema.version) {
+      writeEntry(getStorage(), scoped(key), migrated.value, {
+        ...entry.meta,
+        version: schema.version,
+      });
     }
-  },
 
-  /** Remove a key */
-  remove: (key: string): void => {
-    storage.removeItem(key);
-  },
+    return migrated.value;
+  };
+
+  return {
+    /** Save any value (auto JSON.stringified), optionally with an expiry */
+    set: <T>(key: string, value: T, options?: StorageSetOptions): void => {
+      writeEntry(getStorage(), scoped(key), value, toMeta(undefined, options));
+    },
+
+    /** Get and parse value, with optional default */
+    get: <T>(key: string): T | null => {
+      try {
+        const entry = readLive(key);
+        return entry ? (entry.value as T) : null;
+      } catch (err) {
+        console.warn(`[Storage] Failed to parse "${key}":`, err);
+        return null;
+      }
+    },
+
+    /** Get with fallback default value */
+    getOr: <T>(key: string, defaultValue: T): T => {
+      try {
+        const entry = readLive(key);
+        return entry ? (entry.value as T) : defaultValue;
+      } catch {
+        return defaultValue;
+      }
+    },
+
+    /** Remove a key */
+    remove: (key: string): void => {
+      removeKey(key);
+    },
+
+    /** Check if key exists and has not expired */
+    has: (key: string): boolean => {
+      const meta = readMeta(key);
+      if (meta && isExpired(meta)) {
+        removeKey(key);
+        return false;
+      }
+      return getStorage().getItem(scoped(key)) !== null;
+    },
+
+    /** Clear all data in this storage (only this namespace when scoped) */
+    clear: (): void => {
+      if (!prefix) {
+        getStorage().clear();
+        notify(getStorage());
+        return;
+      }
+
+      ownKeys().forEach((key) => removeKey(key));
+    },
+
+    /** Get all keys (without the namespace prefix) */
+    keys: (): string[] => {
+      return ownKeys();
+    },
+
+    /** Remove every expired entry and return the removed keys */
+    purgeExpired: (): string[] => {
+      const expired = ownKeys().filter((key) => {
+        const meta = readMeta(key);
+        return meta !== null && isExpired(meta);
+      });
+
+      expired.forEach((key) => removeKey(key));
+
+      return expired;
+    },
+
+    /** Milliseconds left before a key expires, or null if it never does */
+    ttl: (key: string): number | null => {
+      const expiresAt = readMeta(key)?.expiresAt;
+      return expiresAt === undefined ? null : Math.max(0, expiresAt - Date.now());
+    },
+
+    /** Milliseconds left for every key that has an expiry */
+    listTTL: (): Record<string, number> => {
+      const now = Date.now();
+
+      return ownKeys().reduce<Record<string, number>>((acc, key) => {
+        const expiresAt = readMeta(key)?.expiresAt;
+        if (expiresAt !== undefined) acc[key] = Math.max(0, expiresAt - now);
+        return acc;
+      }, {});
+    },
+
+    /**
+     * Serialized value as stored, or null when missing or expired.
+     * Cheap to compare, which makes it a good change-detection snapshot.
+     */
+    raw: (key: string): string | null => {
+      const meta = readMeta(key);
+      if (meta && isExpired(meta)) return null;
+      return getStorage().getItem(scoped(key));
+    },
+
+    /**
+     * Subscribe to changes of a key, from this tab (any instance over the same
+     * backend) and from outside the page when the backend can watch (other tabs).
+     */
+    subscribe: (key: string, listener: () => void): (() => void) => {
+      const storage = getStorage();
+      const unlisten = listen(storage, scoped(key), listener);
+
+      const unwatch = storage.watch?.((changed) => {
+        if (changed === null || changed === scoped(key)) listener();
+      });
+
+      return () => {
+        unlisten();
+        unwatch?.();
+      };
+    },
+
+    /**
+     * Move existing unprefixed keys into this namespace.
+     * Keys that already exist in the namespace are kept unless `overwrite` is set.
+     * Returns the keys that were moved.
+     */
+    adoptKeys: (keys: string[], { overwrite = false } = {}): string[] => {
+      if (!prefix) return [];
+
+      const storage = getStorage();
+
+      return keys.filter((key) => {
+        const item = storage.getItem(key);
+        if (item === null) return false;
+        if (!overwrite && storage.getItem(scoped(key)) !== null) return false;
+
+        try {
+          storage.setItem(scoped(key), item);
+        } catch (err) {
+          console.error(`[Storage] Failed to move "${key}":`, err);
+          return false;
+        }
 
-  /** Check if key exists */
-  has: (key: string): boolean => {
-    return storage.getItem(key) !== null;
-  },
+        storage.removeItem(key);
+        notify(storage, scoped(key));
+        return true;
+      });
+    },
 
-  /** Clear all data in this storage */
-  clear: (): void => {
-    storage.clear();
-  },
+    /**
+     * Register a key with a schema and get a typed accessor for it.
+     * Reads validate the payload and run pending migrations.
+     */
+    defineKey: <T>(key: string, schema: StorageSchema<T>): StorageKey<T> => ({
+      key,
+      get: () => readSchema(key, schema),
+      getOr: (defaultValue = schema.defaultValue) =>
+        readSchema(key, schema) ?? defaultValue,
+      set: (value: T, options?: StorageSetOptions) => {
+        writeEntry(getStorage(), scoped(key), value, toMeta(schema.version, options));
+      },
+      remove: () => removeKey(key),
+      has: () => readSchema(key, schema) !== null,
+    }),
+  };
+};
 
-  /** Get all keys */
-  keys: (): string[] => {
-    return Object.keys(storage);
-  },
-});
+export type StorageInstance = ReturnType<typeof createStorage>;
 
-export const local = createStorage(localStorage);
-export const session = createStorage(sessionStorage);
+export const local = createStorage(() => resolveWebStorage("localStorage"));
+export const session = createStorage(() => resolveWebStorage("sessionStorage"));
@@ -0,0 +1,126 @@
+/**
+ * Upload progress reported while the request body is being sent.
+ */
+export interface UploadProgress {
+  loaded: number;
+  /** Total bytes, 0 when the browser cannot compute it */
+  total: number;
+  /** 0-100, or null when the total is unknown */
+  percent: number | null;
+}
+
+export interface UploadOptions {
+  method?: "POST" | "PUT" | "PATCH";
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UploadResponse<T = unknown> {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  /** Parsed JSON when the response is JSON, otherwise the response text */
+  data: T;
+  headers: Record<string, string>;
+}
+
+const parseHeaders = (raw: string): Record<string, string> =>
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .reduce<Record<string, string>>((acc, line) => {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        acc[line.slice(0, separator).trim().toLowerCase()] = line
+          .slice(separator + 1)
+          .trim();
+      }
+      return acc;
+    }, {});
+
+const parseBody = (xhr: XMLHttpRequest): unknown => {
+  const contentType = xhr.getResponseHeader("content-type") ?? "";
+  if (!contentType.includes("json") || !xhr.responseText) return xhr.responseText;
+
+  try {
+    return JSON.parse(xhr.responseText);
+  } catch {
+    return xhr.responseText;
+  }
+};
+
+/**
+ * Sends FormData with XMLHttpRequest, which (unlike fetch) reports upload
+ * progress. Resolves for every HTTP status like fetch does; rejects on network
+ * errors and with an `AbortError` when the signal aborts.
+ *
+ * @param url - Request URL
+ * @param formData - Body to send
+ * @param options - Method, headers, abort signal and progress callback
+ */
+export const uploadFormData = <T = unknown>(
+  url: string,
+  formData: FormData,
+  options: UploadOptions = {}
+): Promise<UploadResponse<T>> => {
+  const { method = "POST", headers = {}, withCredentials, signal, onProgress } =
+    options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+
+    const onAbort = () => xhr.abort();
+    const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.open(method, url);
+    xhr.withCredentials = !!withCredentials;
+
+    Object.entries(headers).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    if (onProgress) {
+      xhr.upload.addEventListener("progress", (event) => {
+        onProgress({
+          loaded: event.loaded,
+          total: event.lengthComputable ? event.total : 0,
+          percent: event.lengthComputable
+            ? Math.round((event.loaded / event.total) * 100)
+            : null,
+        });
+      });
+    }
+
+    xhr.addEventListener("load", () => {
+      cleanup();
+      resolve({
+        ok: xhr.status >= 200 && xhr.status < 300,
+        status: xhr.status,
+        statusText: xhr.statusText,
+        data: parseBody(xhr) as T,
+        headers: parseHeaders(xhr.getAllResponseHeaders()),
+      });
+    });
+
+    xhr.addEventListener("error", () => {
+      cleanup();
+      reject(new TypeError(`[Upload] Network error while uploading to ${url}`));
+    });
+
+    xhr.addEventListener("abort", () => {
+      cleanup();
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    });
+
+    signal?.addEventListener("abort", onAbort);
+
+    xhr.send(formData);
+  });
+};
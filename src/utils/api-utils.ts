@@ -1,31 +1,35 @@
-import { CookieManager } from '../lib/cookie';
+import { DateFormats } from '../constants/DateFormats';
+import { decodeJwt } from '../lib/auth-session';
+import { CookieManager, parseCookieHeader } from '../lib/cookie';
+import { parseFormData, type FormDataFieldType } from '../lib/form-data-parser';
 
 import { isNulOrUndefined } from './common-utils';
+import { formatDate, parseDate } from './date-utils';
 
 /**
  * Configuration for a shared feature endpoint.
  * Can be a string URL or an object mapping roles to URLs.
  */
-interface SharedFeatureConfig {
+export interface SharedFeatureConfig {
   endpoint: string | Record<string, string | null>;
 }
 
 /**
  * Collection of shared features keyed by feature name.
  */
-type SharedFeatures = Record<string, SharedFeatureConfig>;
+export type SharedFeatures = Record<string, SharedFeatureConfig>;
 
 /**
  * Returns the API endpoint URL for a given role and feature.
  * If the endpoint is an object, it looks up the URL for the role.
  * Returns null if the feature or role URL is not found.
  *
- * @param role - User role (e.g., 'admin', 'user')
+ * @param role - User role (e.g., 'admin', 'user'); null when logged out
  * @param feature - Feature key to look up
  * @param sharedFeatures - Object containing all shared features config
  */
 export function getEndpoint(
-  role: string,
+  role: string | null | undefined,
   feature: keyof SharedFeatures,
   sharedFeatures: SharedFeatures,
 ): string | null {
@@ -34,47 +38,212 @@ export function getEndpoint(
   if (!featureConfig) return null;
 
   if (typeof featureConfig.endpoint === 'object') {
-    return featureConfig.endpoint?.[role] || null;
+    return (role && featureConfig.endpoint?.[role]) || null;
   }
 
   return featureConfig.endpoint;
 }
 
+/**
+ * How arrays are written to the query string:
+ * - `repeat`: `ids=1&ids=2`
+ * - `brackets`: `ids[]=1&ids[]=2`
+ * - `indices`: `ids[0]=1&ids[1]=2`
+ * - `comma`: `ids=1,2`
+ */
+export type QueryArrayFormat = 'repeat' | 'brackets' | 'indices' | 'comma';
+
+/**
+ * Options for `generateQuery`.
+ */
+export interface GenerateQueryOptions {
+  /** Array encoding (default: "repeat") */
+  arrayFormat?: QueryArrayFormat;
+  /** Format for Date values (default: ISO string) */
+  dateFormat?: DateFormats | string;
+  /** Sort keys alphabetically, e.g. for stable cache keys */
+  sort?: boolean;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type QueryObject = Record<string, any>;
+
+const isSkippedValue = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (value instanceof Date && isNaN(value.getTime()));
+
+const isNestedObject = (value: unknown): value is QueryObject =>
+  typeof value === 'object' && value !== null && !(value instanceof Date);
+
+const queryEntries = (query: QueryObject, sort?: boolean) => {
+  const entries = Object.entries(query);
+  return sort ? entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)) : entries;
+};
+
+const serializeQueryValue = (value: unknown, dateFormat?: string): string => {
+  if (value instanceof Date) {
+    return dateFormat ? (formatDate(value, dateFormat) ?? '') : value.toISOString();
+  }
+
+  return String(value);
+};
+
+/**
+ * Appends a value under `key`, recursing into arrays and nested objects.
+ */
+const appendQueryValue = (
+  params: URLSearchParams,
+  key: string,
+  value: unknown,
+  options: GenerateQueryOptions,
+) => {
+  const { arrayFormat = 'repeat', dateFormat, sort } = options;
+
+  if (isSkippedValue(value)) return;
+
+  if (Array.isArray(value)) {
+    const items = value.filter((item) => !isSkippedValue(item));
+
+    if (arrayFormat === 'comma' && !items.some(isNestedObject)) {
+      if (items.length) {
+        params.append(key, items.map((item) => serializeQueryValue(item, dateFormat)).join(','));
+      }
+      return;
+    }
+
+    items.forEach((item, index) => {
+      /** Objects need an index to keep their fields together */
+      const itemKey =
+        arrayFormat === 'indices' || arrayFormat === 'comma' || isNestedObject(item)
+          ? `${key}[${index}]`
+          : arrayFormat === 'brackets'
+            ? `${key}[]`
+            : key;
+
+      appendQueryValue(params, itemKey, item, options);
+    });
+    return;
+  }
+
+  if (isNestedObject(value)) {
+    queryEntries(value, sort).forEach(([childKey, child]) => {
+      appendQueryValue(params, `${key}[${childKey}]`, child, options);
+    });
+    return;
+  }
+
+  params.append(key, serializeQueryValue(value, dateFormat));
+};
+
 /**
  * Converts an object to a URL query string, excluding
  * keys with undefined, null, or empty string values.
- * Supports array values by adding multiple entries.
+ * Arrays are encoded according to `arrayFormat` and nested
+ * objects as `filter[status]=active`.
  *
  * @param query - Object representing query parameters
+ * @param options - Array format, date format and key sorting
  * @returns URL-encoded query string
+ *
+ * Example:
+ * generateQuery({ ids: [1, 2], filter: { status: 'active' } }, { arrayFormat: 'brackets' })
+ *    returns 'ids%5B%5D=1&ids%5B%5D=2&filter%5Bstatus%5D=active'
  */
-// eslint-disable-next-line
-export const generateQuery = (query: Record<string, any>): string => {
+export const generateQuery = (query: QueryObject, options: GenerateQueryOptions = {}): string => {
   const searchParams = new URLSearchParams();
 
   if (isNulOrUndefined(query)) {
     return '';
   }
 
-  Object.entries(query).forEach(([key, value]) => {
-    if (Array.isArray(value)) {
-      value.forEach((v) => {
-        if (v !== undefined && v !== null && v !== '') {
-          searchParams.append(key, String(v));
-        }
-      });
-    } else if (value !== undefined && value !== null && value !== '') {
-      searchParams.append(key, String(value));
-    }
+  queryEntries(query, options.sort).forEach(([key, value]) => {
+    appendQueryValue(searchParams, key, value, options);
   });
 
   return searchParams.toString();
 };
 
 /**
- * Checks if the user is logged in by verifying
- * the presence of an access token cookie.
+ * Field types for `parseQuery`, keyed by path without array indices
+ * (e.g. `{ page: 'number', 'filter.from': 'date', ids: 'number[]' }`).
+ */
+export type QuerySchema = Record<string, Exclude<FormDataFieldType, 'file' | 'file[]'>>;
+
+/**
+ * Options for `parseQuery`.
+ */
+export interface ParseQueryOptions {
+  /** Field types used to coerce values; other fields stay strings */
+  schema?: QuerySchema;
+  /** Set to "comma" to split comma-separated array values */
+  arrayFormat?: QueryArrayFormat;
+  /** Format of date fields (default: anything `new Date` understands) */
+  dateFormat?: DateFormats | string;
+}
+
+/** `filter[status]` -> `filter.status`, `ids[]` / `ids[0]` -> `ids` */
+const toSchemaPath = (key: string) =>
+  key.replace(/\[\d*\]/g, '').replace(/\[([^\]]+)\]/g, '.$1');
+
+/**
+ * Parses a query string into a nested object, the inverse of `generateQuery`.
+ * Understands every array format and `filter[status]` keys; repeated keys
+ * become arrays. Values are coerced using the schema.
+ *
+ * @param query - Query string (with or without "?"), full URL or URLSearchParams
+ * @param options - Schema, array format and date format
+ * @returns Parsed object
+ *
+ * Example:
+ * parseQuery('?page=2&ids=1&ids=2', { schema: { page: 'number', ids: 'number[]' } })
+ *    returns { page: 2, ids: [1, 2] }
+ */
+export const parseQuery = <T = Record<string, unknown>>(
+  query: string | URLSearchParams,
+  options: ParseQueryOptions = {},
+): T => {
+  const { schema = {}, arrayFormat, dateFormat } = options;
+
+  const source =
+    typeof query === 'string'
+      ? new URLSearchParams(query.includes('?') ? query.slice(query.indexOf('?') + 1) : query)
+      : query;
+
+  const params = new URLSearchParams();
+
+  source.forEach((value, key) => {
+    const path = toSchemaPath(key);
+    const type = Object.prototype.hasOwnProperty.call(schema, path) ? schema[path] : undefined;
+    const values =
+      arrayFormat === 'comma' && (!type || type.endsWith('[]')) && value.includes(',')
+        ? value.split(',')
+        : [value];
+
+    values.forEach((item) => {
+      const isDate = type === 'date' || type === 'date[]';
+      const date = isDate && dateFormat ? parseDate(item, dateFormat) : undefined;
+
+      params.append(key, date ? date.toISOString() : item);
+    });
+  });
+
+  return parseFormData<T>(params, schema);
+};
+
+/**
+ * Checks if the user is logged in by verifying the access token cookie:
+ * it must be present and, when it is a JWT with an `exp` claim, not expired.
+ * Pass the `Cookie` request header to check on the server.
  */
-export const isLoggedIn = (name: string) => {
-  return !!CookieManager.get(name);
+export const isLoggedIn = (name: string, cookieHeader?: string | null) => {
+  const token =
+    cookieHeader !== undefined ? parseCookieHeader(cookieHeader)[name] : CookieManager.get(name);
+
+  if (!token) return false;
+
+  const exp = decodeJwt(token)?.exp;
+
+  return typeof exp !== 'number' || exp * 1000 > Date.now();
 };
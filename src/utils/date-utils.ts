@@ -12,57 +12,382 @@ const toDate = (date: DateInput): Date | undefined => {
 
 const pad = (n: number) => String(n).padStart(2, "0");
 
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/* ----------------------------- Time zones ----------------------------- */
+
+export interface TimeZoneOptions {
+  /**
+   * IANA time zone the calendar is read in, e.g. "Asia/Baku" or "UTC"
+   * (default: the host's local time)
+   */
+  timeZone?: string;
+}
+
+/** Calendar fields of an instant as shown in a time zone */
+interface DateParts {
+  year: number;
+  /** 0-11 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** Minutes east of UTC */
+  offset: number;
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes (east positive),
+ * e.g. 240 for "Asia/Baku". DST is taken into account.
+ *
+ * @param timeZone - IANA time zone; invalid names throw a RangeError
+ * @param date - Instant to get the offset at (default: now)
+ */
+export const getTimeZoneOffset = (
+  timeZone: string,
+  date: Date | number | string = new Date(),
+): number => {
+  const d = date instanceof Date ? date : new Date(date);
+  let formatter = offsetFormatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+  formatter.formatToParts(d).forEach(({ type, value }) => {
+    parts[type] = Number(value);
+  });
+
+  const wall = new Date(0);
+  wall.setUTCFullYear(parts.year!, parts.month! - 1, parts.day);
+  wall.setUTCHours(parts.hour!, parts.minute, parts.second);
+
+  const seconds = d.getTime() - (((d.getTime() % 1000) + 1000) % 1000);
+  return Math.round((wall.getTime() - seconds) / 60000);
+};
+
+/**
+ * Wall-clock time of an instant in a zone (or local time), as a Date whose
+ * UTC getters and setters read and change the wall-clock fields.
+ */
+const toWallTime = (d: Date, timeZone?: string): Date =>
+  new Date(
+    d.getTime() +
+      (timeZone ? getTimeZoneOffset(timeZone, d) : -d.getTimezoneOffset()) * 60000,
+  );
+
+/**
+ * Instant of a wall-clock time from `toWallTime`. Times skipped by a DST
+ * change move forward; repeated times take the earlier instant.
+ */
+const fromWallTime = (wall: Date, timeZone?: string): Date => {
+  if (!timeZone) {
+    const d = new Date(0);
+    d.setFullYear(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+    d.setHours(
+      wall.getUTCHours(),
+      wall.getUTCMinutes(),
+      wall.getUTCSeconds(),
+      wall.getUTCMilliseconds(),
+    );
+    return d;
+  }
+
+  /** The offsets in force a day before and after; a transition lies between */
+  const candidates = [-DAY, DAY]
+    .map((shift) => getTimeZoneOffset(timeZone, new Date(wall.getTime() + shift)))
+    .map((offset) => ({ offset, time: wall.getTime() - offset * 60000 }))
+    .sort((a, b) => a.time - b.time);
+
+  const exact = candidates.find(
+    ({ offset, time }) => getTimeZoneOffset(timeZone, new Date(time)) === offset,
+  );
+
+  /** No candidate shows this wall time: it is in a gap, take the later instant */
+  return new Date((exact ?? candidates[1]).time);
+};
+
+const getDateParts = (d: Date, timeZone?: string): DateParts => {
+  const wall = toWallTime(d, timeZone);
+
+  return {
+    year: wall.getUTCFullYear(),
+    month: wall.getUTCMonth(),
+    day: wall.getUTCDate(),
+    hour: wall.getUTCHours(),
+    minute: wall.getUTCMinutes(),
+    second: wall.getUTCSeconds(),
+    millisecond: wall.getUTCMilliseconds(),
+    offset: Math.round((wall.getTime() - d.getTime()) / 60000),
+  };
+};
+
+/**
+ * Changes the wall-clock fields of a date in a zone (or local time) with
+ * UTC setters, e.g. `(wall) => wall.setUTCHours(0, 0, 0, 0)`.
+ */
+const updateWallTime = (
+  d: Date,
+  timeZone: string | undefined,
+  update: (wall: Date) => void,
+): Date => {
+  const wall = toWallTime(d, timeZone);
+  update(wall);
+  return fromWallTime(wall, timeZone);
+};
+
+/** Calendar day of a date in a zone, for comparing days */
+const getDayKey = (d: Date, timeZone?: string): string => {
+  const { year, month, day } = getDateParts(d, timeZone);
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Instant of a wall-clock time in a zone, e.g. a meeting entered as
+ * "10:00 in UTC" on a host in Baku.
+ *
+ * @param date - Date whose local fields hold the wall-clock time
+ * @param timeZone - Zone the wall-clock time is in
+ */
+export const fromZonedTime = (date: DateInput, timeZone: string): Date | undefined => {
+  const d = toDate(date);
+  return d ? fromWallTime(toWallTime(d), timeZone) : undefined;
+};
+
+/**
+ * Date whose local fields show an instant's wall-clock time in a zone,
+ * for components that only render local time.
+ *
+ * @param date - Instant
+ * @param timeZone - Zone to show the time in
+ */
+export const toZonedTime = (date: DateInput, timeZone: string): Date | undefined => {
+  const d = toDate(date);
+  return d ? fromWallTime(toWallTime(d, timeZone)) : undefined;
+};
+
+/**
+ * Reads a wall-clock time in one zone and returns the same instant as a
+ * wall-clock time in another, e.g. 09:00 in Baku is 06:00 in Berlin
+ * (winter). Both the input and the result use the host's local fields
+ * (`getHours()` etc.), as a date picker does.
+ *
+ * @param date - Wall-clock time in `fromZone`
+ * @param fromZone - Zone the input is in
+ * @param toZone - Zone to show the time in
+ */
+export const convertTimeZone = (
+  date: DateInput,
+  fromZone: string,
+  toZone: string,
+): Date | undefined => {
+  const instant = fromZonedTime(date, fromZone);
+  return instant && toZonedTime(instant, toZone);
+};
+
 /* ----------------------------- formatDate() ----------------------------- */
+
+/**
+ * Supported tokens, longest first. Text in [brackets] is copied as is,
+ * e.g. "[Today is] dddd".
+ */
+const FORMAT_TOKENS =
+  /\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|SSS|A|Z/g;
+
+/** Locale used when none is passed */
+export const DEFAULT_DATE_LOCALE = "en-GB";
+
+export interface DateFormatOptions extends TimeZoneOptions {
+  /** BCP 47 locale for month and weekday names, e.g. "az" (default: "en-GB") */
+  locale?: string;
+}
+
+const nameFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Month or weekday name of a calendar day. With `withDay`, months use the form that goes next to a day number,
+ * which differs in e.g. Russian ("5 декабря" vs "декабрь").
+ */
+const getName = (
+  { year, month, day }: Pick<DateParts, "year" | "month" | "day">,
+  locale: string,
+  part: "month" | "weekday",
+  style: "long" | "short",
+  withDay = false,
+): string => {
+  const key = `${locale}:${part}:${style}:${withDay}`;
+  let formatter = nameFormatters.get(key);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, {
+      [part]: style,
+      ...(withDay && { day: "numeric" }),
+      timeZone: "UTC",
+    });
+    nameFormatters.set(key, formatter);
+  }
+
+  const date = new Date(0);
+  date.setUTCFullYear(year, month, day);
+
+  return formatter.formatToParts(date).find(({ type }) => type === part)?.value ?? "";
+};
+
+/** Offset from UTC as "+04:00" */
+const formatOffset = (offset: number): string => {
+  const abs = Math.abs(offset);
+  return `${offset < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+interface TokenContext {
+  locale: string;
+  /** The format also shows the day of the month */
+  withDay: boolean;
+}
+
+const formatToken = (
+  parts: DateParts,
+  token: string,
+  { locale, withDay }: TokenContext,
+): string => {
+  const hours = parts.hour;
+
+  switch (token) {
+    case "YYYY": return String(parts.year).padStart(4, "0");
+    case "YY": return pad(parts.year % 100);
+    case "MMMM": return getName(parts, locale, "month", "long", withDay);
+    case "MMM": return getName(parts, locale, "month", "short", withDay);
+    case "MM": return pad(parts.month + 1);
+    case "M": return String(parts.month + 1);
+    case "DD": return pad(parts.day);
+    case "D": return String(parts.day);
+    case "dddd": return getName(parts, locale, "weekday", "long");
+    case "ddd": return getName(parts, locale, "weekday", "short");
+    case "HH": return pad(hours);
+    case "H": return String(hours);
+    case "hh": return pad(hours % 12 || 12);
+    case "h": return String(hours % 12 || 12);
+    case "mm": return pad(parts.minute);
+    case "ss": return pad(parts.second);
+    case "SSS": return String(parts.millisecond).padStart(3, "0");
+    case "A": return hours < 12 ? "AM" : "PM";
+    default: return formatOffset(parts.offset);
+  }
+};
+
+/**
+ * Formats a date in local time, or in `options.timeZone`.
+ *
+ * Tokens: YYYY, YY, MMMM (January), MMM (Jan), MM, M, DD, D, dddd (Monday),
+ * ddd (Mon), HH, H, hh, h (12-hour), mm, ss, SSS, A (AM/PM), Z (+04:00).
+ * Wrap literal text in [brackets]. Names follow `options.locale`.
+ *
+ * @example formatDate(date, "dddd, D MMMM YYYY [at] HH:mm") // "Friday, 5 December 2025 at 14:30"
+ * @example formatDate(date, "D MMMM YYYY", { locale: "az" }) // "5 dekabr 2025"
+ * @example formatDate(date, "HH:mm Z", { timeZone: "Asia/Baku" }) // "18:30 +04:00"
+ */
 export const formatDate = (
   date: DateInput,
   format: DateFormats | string = DateFormats.DD_MMM_YYYY_WITH_SPACE,
+  options: DateFormatOptions = {},
 ): string | undefined => {
   const d = toDate(date);
   if (!d) return undefined;
 
-  const formatter = new Intl.DateTimeFormat("en-GB", {
-    day: "2-digit",
-    month: "short",
-    year: "numeric",
-  });
-
-  if (format === DateFormats.DD_MMM_YYYY_WITH_SPACE) {
-    const str = formatter.format(d); // "05 Dec 2025"
-    return str.replace(",", "");
-  }
+  const parts = getDateParts(d, options.timeZone);
+  const tokens = format.replace(/\[[^\]]*]/g, "");
+  const context: TokenContext = {
+    locale: options.locale ?? DEFAULT_DATE_LOCALE,
+    withDay: /D/.test(tokens),
+  };
 
-  // Manual formatting fallback
-  return format
-    .replace("YYYY", d.getFullYear().toString())
-    .replace("MM", pad(d.getMonth() + 1))
-    .replace("DD", pad(d.getDate()));
+  return format.replace(FORMAT_TOKENS, (token, literal?: string) =>
+    literal !== undefined ? literal : formatToken(parts, token, context),
+  );
 };
 
 /* ----------------------------- formatRelativeTime() ----------------------------- */
+
+export interface RelativeTimeOptions {
+  /** BCP 47 locale, e.g. "az" (default: "en-GB") */
+  locale?: string;
+  /**
+   * "auto" uses words where the locale has them ("yesterday", "now");
+   * "always" keeps numbers ("1 day ago") (default: "always")
+   */
+  numeric?: "always" | "auto";
+  style?: "long" | "short" | "narrow";
+}
+
+/**
+ * Smallest unit first, each with how many of it make up the next unit
+ * (weeks have none: months start at 30 days).
+ */
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number, number?][] = [
+  ["second", SECOND, 60],
+  ["minute", MINUTE, 60],
+  ["hour", HOUR, 24],
+  ["day", DAY, 7],
+  ["week", 7 * DAY],
+  ["month", 30 * DAY, 12],
+  ["year", 365 * DAY],
+];
+
+/**
+ * Describes a date relative to `baseDate` (default: now) in the largest
+ * fitting unit, e.g. "5 minutes ago", "in 2 weeks" or, in Azerbaijani,
+ * "5 dəqiqə öncə".
+ */
 export const formatRelativeTime = (
   date: DateInput,
   baseDate?: DateInput,
+  options: RelativeTimeOptions = {},
 ): string | undefined => {
   const d = toDate(date);
   const base = toDate(baseDate) ?? new Date();
   if (!d) return undefined;
 
+  const { locale = DEFAULT_DATE_LOCALE, numeric = "always", style = "long" } = options;
   const diff = d.getTime() - base.getTime();
   const abs = Math.abs(diff);
 
-  if (abs < 60000)
-    return diff < 0 ? "seconds ago" : "in seconds";
+  /**
+   * Moves up while the difference reaches the next unit, or rounds up to a
+   * whole one: 6.6 days is "1 week", 364 days "1 year".
+   */
+  let index = 0;
+
+  for (; index < RELATIVE_UNITS.length - 1; index++) {
+    const [, size, count] = RELATIVE_UNITS[index];
+    const [, nextSize] = RELATIVE_UNITS[index + 1];
+
+    if (abs < nextSize && (count === undefined || Math.round(abs / size) < count)) break;
+  }
 
-  const minutes = Math.round(abs / 60000);
-  if (minutes < 60)
-    return diff < 0 ? `${minutes} minutes ago` : `in ${minutes} minutes`;
+  const [unit, size] = RELATIVE_UNITS[index];
 
-  const hours = Math.round(abs / 3600000);
-  if (hours < 24)
-    return diff < 0 ? `${hours} hours ago` : `in ${hours} hours`;
+  /** Keeps the sign of a rounded zero (-0), so it still reads "0 seconds ago" */
+  const value = Math.sign(diff) * Math.round(abs / size);
 
-  const days = Math.round(abs / 86400000);
-  return diff < 0 ? `${days} days ago` : `in ${days} days`;
+  return new Intl.RelativeTimeFormat(locale, { numeric, style }).format(value, unit);
 };
 
 /* ----------------------------- Validators ----------------------------- */
@@ -78,11 +403,11 @@ export const isFuture = (date: DateInput): boolean => {
   return d ? d.getTime() > Date.now() : false;
 };
 
-export const isToday = (date: DateInput): boolean => {
+/** Whether the date falls on the current day, in local time or `options.timeZone` */
+export const isToday = (date: DateInput, options: TimeZoneOptions = {}): boolean => {
   const d = toDate(date);
   if (!d) return false;
-  const today = new Date();
-  return d.toDateString() === today.toDateString();
+  return getDayKey(d, options.timeZone) === getDayKey(new Date(), options.timeZone);
 };
 
 export const isYesterday = (date: DateInput): boolean => {
@@ -101,10 +426,15 @@ export const isTomorrow = (date: DateInput): boolean => {
   return d.toDateString() === t.toDateString();
 };
 
-export const isSameDay = (date1: DateInput, date2: DateInput): boolean => {
+/** Whether both dates fall on the same day, in local time or `options.timeZone` */
+export const isSameDay = (
+  date1: DateInput,
+  date2: DateInput,
+  options: TimeZoneOptions = {},
+): boolean => {
   const d1 = toDate(date1);
   const d2 = toDate(date2);
-  return d1 && d2 ? d1.toDateString() === d2.toDateString() : false;
+  return d1 && d2 ? getDayKey(d1, options.timeZone) === getDayKey(d2, options.timeZone) : false;
 };
 
 /* ----------------------------- Between ----------------------------- */
@@ -143,71 +473,68 @@ export const getDateDifference = (
 };
 
 /* ----------------------------- Add/Subtract ----------------------------- */
+const DURATIONS = { second: SECOND, minute: MINUTE, hour: HOUR };
+
+/**
+ * Adds days on the calendar of local time or `options.timeZone`, keeping
+ * the wall-clock time across DST changes; hours, minutes and seconds are
+ * exact durations.
+ */
 export const addToDate = (
   date: DateInput,
   amount: number,
   unit: "day" | "hour" | "minute" | "second" = "day",
+  options: TimeZoneOptions = {},
 ): Date | undefined => {
   const d = toDate(date);
   if (!d) return undefined;
 
-  const copy = new Date(d);
+  if (unit !== "day") return new Date(d.getTime() + amount * DURATIONS[unit]);
 
-  if (unit === "second") copy.setSeconds(copy.getSeconds() + amount);
-  else if (unit === "minute") copy.setMinutes(copy.getMinutes() + amount);
-  else if (unit === "hour") copy.setHours(copy.getHours() + amount);
-  else copy.setDate(copy.getDate() + amount);
-
-  return copy;
+  return updateWallTime(d, options.timeZone, (wall) => {
+    wall.setUTCDate(wall.getUTCDate() + amount);
+  });
 };
 
 export const subtractFromDate = (
   date: DateInput,
   amount: number,
   unit: "day" | "hour" | "minute" | "second" = "day",
-): Date | undefined => addToDate(date, -amount, unit);
+  options: TimeZoneOptions = {},
+): Date | undefined => addToDate(date, -amount, unit, options);
 
 /* ----------------------------- Start/End ----------------------------- */
+
+/** Start of the day, month or year in local time or `options.timeZone` */
 export const startOf = (
   date: DateInput,
   unit: "day" | "month" | "year" = "day",
+  options: TimeZoneOptions = {},
 ): Date | undefined => {
   const d = toDate(date);
   if (!d) return undefined;
 
-  const copy = new Date(d);
-
-  if (unit === "day") copy.setHours(0, 0, 0, 0);
-  else if (unit === "month") {
-    copy.setDate(1);
-    copy.setHours(0, 0, 0, 0);
-  } else if (unit === "year") {
-    copy.setMonth(0, 1);
-    copy.setHours(0, 0, 0, 0);
-  }
-
-  return copy;
+  return updateWallTime(d, options.timeZone, (wall) => {
+    if (unit === "month") wall.setUTCDate(1);
+    else if (unit === "year") wall.setUTCMonth(0, 1);
+    wall.setUTCHours(0, 0, 0, 0);
+  });
 };
 
+/** Last millisecond of the day, month or year in local time or `options.timeZone` */
 export const endOf = (
   date: DateInput,
   unit: "day" | "month" | "year" = "day",
+  options: TimeZoneOptions = {},
 ): Date | undefined => {
   const d = toDate(date);
   if (!d) return undefined;
 
-  const copy = new Date(d);
-
-  if (unit === "day") copy.setHours(23, 59, 59, 999);
-  else if (unit === "month") {
-    copy.setMonth(copy.getMonth() + 1, 0);
-    copy.setHours(23, 59, 59, 999);
-  } else if (unit === "year") {
-    copy.setMonth(11, 31);
-    copy.setHours(23, 59, 59, 999);
-  }
-
-  return copy;
+  return updateWallTime(d, options.timeZone, (wall) => {
+    if (unit === "month") wall.setUTCMonth(wall.getUTCMonth() + 1, 0);
+    else if (unit === "year") wall.setUTCMonth(11, 31);
+    wall.setUTCHours(23, 59, 59, 999);
+  });
 };
 
 /* ----------------------------- Range formatting ----------------------------- */
@@ -216,9 +543,10 @@ export const formatDateRange = (
   endDate: DateInput,
   format: DateFormats | string = DateFormats.DD_MMM_YYYY_WITH_SPACE,
   separator: string = ' - ',
+  options: DateFormatOptions = {},
 ): string | undefined => {
-  const s = formatDate(startDate, format);
-  const e = formatDate(endDate, format);
+  const s = formatDate(startDate, format, options);
+  const e = formatDate(endDate, format, options);
   return s && e ? `${s}${separator}${e}` : undefined;
 };
 
@@ -237,12 +565,231 @@ export const getAge = (birthdate: DateInput): number | undefined => {
 };
 
 /* ----------------------------- parseDate ----------------------------- */
-export const parseDate = (dateString: string, format: string): Date | undefined => {
-  if (format === "DD/MM/YYYY") {
-    const [dd, mm, yyyy] = dateString.split("/").map(Number);
-    return new Date(yyyy, mm - 1, dd);
+
+export interface ParseDateOptions {
+  /**
+   * Strict input must look exactly like `formatDate` output: padded
+   * numbers, exact case and spacing, a matching weekday, and no local
+   * times skipped by a DST change. Lenient input may be unpadded,
+   * differ in case and spacing, and have surrounding whitespace.
+   * Out-of-range and overflowing values are rejected either way.
+   * (default: true)
+   */
+  strict?: boolean;
+  /** Locale of month and weekday names (default: "en-GB") */
+  locale?: string;
+}
+
+interface ParsedFields {
+  year?: number;
+  month?: number;
+  day?: number;
+  weekday?: number;
+  hour?: number;
+  /** Hour of a 12-hour clock (h, hh), combined with `pm` */
+  hour12?: number;
+  minute?: number;
+  second?: number;
+  millisecond?: number;
+  pm?: boolean;
+  /** Minutes east of UTC */
+  offset?: number;
+}
+
+interface ParseToken {
+  pattern: string;
+  apply: (value: string, fields: ParsedFields) => void;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Names in index order: months January first, weekdays Sunday first */
+const getNames = (
+  locale: string,
+  part: "month" | "weekday",
+  style: "long" | "short",
+  withDay: boolean,
+): string[] =>
+  Array.from({ length: part === "month" ? 12 : 7 }, (_, i) =>
+    part === "month"
+      ? getName({ year: 2000, month: i, day: 1 }, locale, part, style, withDay)
+      : getName({ year: 2000, month: 0, day: 2 + i }, locale, part, style),
+  );
+
+const nameToken = (
+  names: string[],
+  field: "month" | "weekday",
+  strict: boolean,
+): ParseToken => ({
+  pattern: `(${[...names].sort((a, b) => b.length - a.length).map(escapeRegExp).join("|")})`,
+  apply: (value, fields) => {
+    const normalized = strict ? value : value.toLowerCase();
+    fields[field] = names.findIndex(
+      (name) => (strict ? name : name.toLowerCase()) === normalized,
+    );
+  },
+});
+
+const numberToken = (
+  pattern: string,
+  apply: (value: number, fields: ParsedFields) => void,
+): ParseToken => ({
+  pattern: `(${pattern})`,
+  apply: (value, fields) => apply(Number(value), fields),
+});
+
+const getParseToken = (
+  token: string,
+  { locale, withDay }: TokenContext,
+  strict: boolean,
+): ParseToken => {
+  const twoDigits = strict ? "\\d{2}" : "\\d{1,2}";
+
+  switch (token) {
+    case "YYYY": return numberToken("\\d{4}", (v, f) => { f.year = v; });
+    /** Two-digit years: 00-68 are 2000-2068, 69-99 are 1969-1999 */
+    case "YY": return numberToken("\\d{2}", (v, f) => { f.year = v + (v > 68 ? 1900 : 2000); });
+    case "MMMM": return nameToken(getNames(locale, "month", "long", withDay), "month", strict);
+    case "MMM": return nameToken(getNames(locale, "month", "short", withDay), "month", strict);
+    case "MM": return numberToken(twoDigits, (v, f) => { f.month = v - 1; });
+    case "M": return numberToken("\\d{1,2}", (v, f) => { f.month = v - 1; });
+    case "DD": return numberToken(twoDigits, (v, f) => { f.day = v; });
+    case "D": return numberToken("\\d{1,2}", (v, f) => { f.day = v; });
+    case "dddd": return nameToken(getNames(locale, "weekday", "long", false), "weekday", strict);
+    case "ddd": return nameToken(getNames(locale, "weekday", "short", false), "weekday", strict);
+    case "HH": return numberToken(twoDigits, (v, f) => { f.hour = v; });
+    case "H": return numberToken("\\d{1,2}", (v, f) => { f.hour = v; });
+    case "hh": return numberToken(twoDigits, (v, f) => { f.hour12 = v; });
+    case "h": return numberToken("\\d{1,2}", (v, f) => { f.hour12 = v; });
+    case "mm": return numberToken(twoDigits, (v, f) => { f.minute = v; });
+    case "ss": return numberToken(twoDigits, (v, f) => { f.second = v; });
+    case "SSS": return numberToken("\\d{3}", (v, f) => { f.millisecond = v; });
+    case "A":
+      return {
+        pattern: "(AM|PM)",
+        apply: (value, fields) => { fields.pm = value.toUpperCase() === "PM"; },
+      };
+    default:
+      return {
+        pattern: strict ? "([+-]\\d{2}:\\d{2})" : "(Z|[+-]\\d{2}:?\\d{2})",
+        apply: (value, fields) => {
+          const [, sign, hours, minutes] = /^([+-])(\d{2}):?(\d{2})$/.exec(value) ?? [];
+          fields.offset = sign
+            ? (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes))
+            : 0;
+        },
+      };
+  }
+};
+
+/**
+ * Parses a string written in a `formatDate` format, so
+ * `parseDate(formatDate(date, format), format)` gives the date back at the
+ * format's precision. Missing parts default to the current year, January,
+ * the 1st and midnight; values are local time unless the format has Z.
+ *
+ * @param dateString - Input, e.g. "05/12/2025 14:30"
+ * @param format - Token format, e.g. DateFormats.DD_MM_YYYY_HH_mm
+ * @param options - Strict or lenient matching and the locale of names
+ * @returns The date, or undefined when the input does not match the format
+ *   or names a date or time that does not exist (e.g. "31/02/2024")
+ */
+export const parseDate = (
+  dateString: string,
+  format: DateFormats | string,
+  options: ParseDateOptions = {},
+): Date | undefined => {
+  const { strict = true, locale = DEFAULT_DATE_LOCALE } = options;
+
+  const context: TokenContext = {
+    locale,
+    withDay: /D/.test(format.replace(/\[[^\]]*]/g, "")),
+  };
+
+  const tokens: ParseToken[] = [];
+  let pattern = "";
+  let lastIndex = 0;
+
+  const addLiteral = (text: string) => {
+    pattern += strict
+      ? escapeRegExp(text)
+      : text.split(/\s+/).map(escapeRegExp).join("\\s*");
+  };
+
+  for (const match of format.matchAll(FORMAT_TOKENS)) {
+    addLiteral(format.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      addLiteral(match[1]);
+      continue;
+    }
+
+    const token = getParseToken(match[0], context, strict);
+    tokens.push(token);
+    pattern += token.pattern;
+  }
+
+  addLiteral(format.slice(lastIndex));
+
+  const input = strict ? dateString : dateString.trim();
+  const values = new RegExp(`^${pattern}$`, strict ? "u" : "iu").exec(input);
+  if (!values) return undefined;
+
+  const fields: ParsedFields = {};
+  tokens.forEach((token, i) => token.apply(values[i + 1], fields));
+
+  const {
+    year = new Date().getFullYear(),
+    month = 0,
+    day = 1,
+    minute = 0,
+    second = 0,
+    millisecond = 0,
+    hour12,
+    pm,
+    offset,
+  } = fields;
+
+  const hour =
+    hour12 === undefined
+      ? (fields.hour ?? 0)
+      : pm === undefined
+        ? hour12
+        : (hour12 % 12) + (pm ? 12 : 0);
+
+  const d = new Date(0);
+  d.setUTCFullYear(year, month + 1, 0);
+
+  const isValid =
+    month >= 0 && month <= 11 &&
+    day >= 1 && day <= d.getUTCDate() &&
+    hour >= 0 && hour <= 23 &&
+    (hour12 === undefined || (hour12 >= 1 && hour12 <= 12)) &&
+    minute <= 59 &&
+    second <= 59;
+
+  if (!isValid) return undefined;
+
+  /** Weekday of the calendar date, wherever the instant falls */
+  d.setUTCFullYear(year, month, day);
+  if (strict && fields.weekday !== undefined && fields.weekday !== d.getUTCDay()) {
+    return undefined;
   }
-  return toDate(dateString);
+
+  if (offset !== undefined) {
+    d.setUTCFullYear(year, month, day);
+    d.setUTCHours(hour, minute, second, millisecond);
+    d.setTime(d.getTime() - offset * 60000);
+  } else {
+    d.setFullYear(year, month, day);
+    d.setHours(hour, minute, second, millisecond);
+
+    /** The local time was skipped by a DST change and moved forward */
+    if (strict && (d.getHours() !== hour || d.getMinutes() !== minute)) return undefined;
+  }
+
+  return d;
 };
 
 /* ----------------------------- ISO & Unix ----------------------------- */
@@ -195,6 +195,89 @@ export const retry = async <T extends (...args: any[]) => Promise<any>>(
   throw lastError!;
 };
 
+/**
+ * Options for `retryWithBackoff`.
+ */
+export interface BackoffOptions {
+  /** Number of retry attempts (default: 3) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds (default: 300) */
+  baseDelay?: number;
+  /** Upper bound for a single delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after every attempt (default: 2) */
+  factor?: number;
+  /** Randomize each delay between 0 and the computed value (default: true) */
+  jitter?: boolean;
+  /** Decides whether an error is worth another attempt (default: always) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Overrides the computed delay, e.g. from a `Retry-After` header */
+  getDelay?: (error: unknown, attempt: number) => number | null | undefined;
+  /** Stops retrying (and waiting) when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Computes the exponential backoff delay for a retry attempt (0-based).
+ *
+ * @param attempt - Index of the retry
+ * @param options - Base delay, factor, cap and jitter
+ * @returns Delay in milliseconds
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  options: Pick<BackoffOptions, 'baseDelay' | 'maxDelay' | 'factor' | 'jitter'> = {}
+): number => {
+  const { baseDelay = 300, maxDelay = 30000, factor = 2, jitter = true } = options;
+  const delay = Math.min(maxDelay, baseDelay * factor ** attempt);
+
+  return jitter ? Math.round(Math.random() * delay) : delay;
+};
+
+/**
+ * Retries an async function with exponential backoff and jitter.
+ * Unlike `retry`, errors can be filtered and delays overridden per error.
+ *
+ * @param func - Async function to retry; receives the attempt index
+ * @param options - Retry count, delays, filters and abort signal
+ * @returns Promise that resolves with the function result or rejects with the last error
+ */
+export const retryWithBackoff = async <T>(
+  func: (attempt: number) => Promise<T>,
+  options: BackoffOptions = {}
+): Promise<T> => {
+  const { retries = 3, maxDelay = 30000, shouldRetry, getDelay, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await func(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || (shouldRetry && !shouldRetry(error, attempt))) {
+        throw error;
+      }
+
+      const override = getDelay?.(error, attempt);
+      const wait =
+        override !== null && override !== undefined
+          ? Math.min(override, maxDelay)
+          : getBackoffDelay(attempt, options);
+
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, wait);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+  }
+};
+
 /**
  * Creates a curried version of a function.
  *
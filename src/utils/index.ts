@@ -2,6 +2,7 @@ export * from './api-utils';
 export * from './date-utils';
 export * from './phone-utils';
 export * from './array-utils';
+export * from './route-utils';
 export * from './common-utils';
 export * from './object-utils';
 export * from './string-utils';
@@ -0,0 +1,182 @@
+/**
+ * Params extracted from a route pattern; the `*` wildcard is stored under "*".
+ */
+export type RouteParams = Record<string, string | undefined>;
+
+/**
+ * Result of a successful route match.
+ */
+export interface RouteMatch {
+  params: RouteParams;
+  /** Part of the pathname matched by the pattern */
+  pathname: string;
+}
+
+/**
+ * Options for `matchRoute`.
+ */
+export interface MatchRouteOptions {
+  /** Require the whole pathname to match, not only a prefix (default: true) */
+  end?: boolean;
+  /** Compare static segments case-sensitively (default: false) */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Breadcrumb label: a string, or a function of the matched params.
+ */
+export type RouteLabel = string | ((params: RouteParams) => string);
+
+export interface Breadcrumb {
+  path: string;
+  label: string;
+  params: RouteParams;
+}
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Splits a path into segments, ignoring leading, trailing and repeated slashes.
+ */
+export const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+/**
+ * Normalizes a path to a leading slash and no trailing slash.
+ *
+ * Example:
+ * normalizePath('users//42/') returns '/users/42'
+ */
+export const normalizePath = (path: string): string => `/${splitPath(path).join('/')}`;
+
+/**
+ * Matches a pathname against a route pattern, segment by segment.
+ * Supports params (`/users/:id`), optional segments (`/users/:id?`,
+ * `/docs/intro?`) and a trailing wildcard (`/files/*`).
+ *
+ * @param pattern - Route pattern
+ * @param pathname - Pathname to test
+ * @param options - Prefix matching and case sensitivity
+ * @returns Extracted params and the matched pathname, or null
+ *
+ * Example:
+ * matchRoute('/users/:id', '/users/42') returns { params: { id: '42' }, pathname: '/users/42' }
+ * matchRoute('/users', '/users-archive') returns null
+ */
+export const matchRoute = (
+  pattern: string,
+  pathname: string,
+  { end = true, caseSensitive = false }: MatchRouteOptions = {},
+): RouteMatch | null => {
+  const patternSegments = splitPath(pattern);
+  const pathSegments = splitPath(pathname);
+
+  const isEqual = (value: string, name: string) =>
+    caseSensitive ? value === name : value.toLowerCase() === name.toLowerCase();
+
+  /**
+   * Matches the pattern from segment `p` against the path from segment
+   * `i`. Optional segments are first consumed, then skipped, so
+   * `/:lang?/docs` also matches `/docs`.
+   */
+  const matchFrom = (p: number, i: number, params: RouteParams): RouteMatch | null => {
+    if (p === patternSegments.length) {
+      if (end && i < pathSegments.length) return null;
+      return { params, pathname: `/${pathSegments.slice(0, i).join('/')}` };
+    }
+
+    const segment = patternSegments[p];
+
+    if (segment === '*') {
+      return {
+        params: { ...params, '*': pathSegments.slice(i).map(safeDecode).join('/') },
+        pathname: `/${pathSegments.join('/')}`,
+      };
+    }
+
+    const optional = segment.endsWith('?');
+    const name = optional ? segment.slice(0, -1) : segment;
+    const value = pathSegments[i];
+
+    const consumed =
+      value === undefined
+        ? null
+        : name.startsWith(':')
+          ? matchFrom(p + 1, i + 1, { ...params, [name.slice(1)]: safeDecode(value) })
+          : isEqual(value, name)
+            ? matchFrom(p + 1, i + 1, params)
+            : null;
+
+    return consumed ?? (optional ? matchFrom(p + 1, i, params) : null);
+  };
+
+  return matchFrom(0, 0, {});
+};
+
+/**
+ * Checks whether `prefix` matches the start of `pathname` on segment
+ * boundaries, so `/users` is active on `/users/42` but not `/users-archive`.
+ * Patterns are supported (`/projects/:id`).
+ */
+export const isPathPrefix = (prefix: string, pathname: string): boolean =>
+  !!matchRoute(prefix, pathname, { end: false });
+
+/**
+ * Checks whether the segments of `segment` (e.g. `settings` or
+ * `settings/billing`) appear consecutively in `pathname`.
+ */
+export const hasPathSegment = (pathname: string, segment: string): boolean => {
+  const haystack = splitPath(pathname);
+  const needle = splitPath(segment);
+
+  if (!needle.length) return false;
+
+  return haystack.some((_, start) =>
+    needle.every((part, offset) => haystack[start + offset] === part),
+  );
+};
+
+/**
+ * Builds breadcrumbs for every level of `pathname` that has a label.
+ * Labels are keyed by route pattern; the first matching pattern wins.
+ *
+ * @param pathname - Current pathname
+ * @param labels - Labels keyed by route pattern
+ * @returns Breadcrumbs from the root to the current page
+ *
+ * Example:
+ * getBreadcrumbs('/users/42', { '/': 'Home', '/users': 'Users', '/users/:id': (p) => `#${p.id}` })
+ *    returns [{ path: '/', label: 'Home' }, { path: '/users', ... }, { path: '/users/42', label: '#42' }]
+ */
+export const getBreadcrumbs = (
+  pathname: string,
+  labels: Record<string, RouteLabel>,
+): Breadcrumb[] => {
+  const segments = splitPath(pathname);
+  const patterns = Object.entries(labels);
+
+  return Array.from({ length: segments.length + 1 }, (_, depth) =>
+    normalizePath(segments.slice(0, depth).join('/')),
+  ).flatMap((path) => {
+    for (const [pattern, label] of patterns) {
+      const match = matchRoute(pattern, path);
+
+      if (match) {
+        return [
+          {
+            path,
+            label: typeof label === 'function' ? label(match.params) : label,
+            params: match.params,
+          },
+        ];
+      }
+    }
+
+    return [];
+  });
+};